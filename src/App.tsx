@@ -1,9 +1,13 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { ReportSchedulerHost } from "@/components/dashboard/ReportSchedulerHost";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import CampaignDetail from "./pages/CampaignDetail";
+import Clients from "./pages/Clients";
+import ClientDetail from "./pages/ClientDetail";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -13,9 +17,13 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <ReportSchedulerHost />
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/campaigns/:id" element={<CampaignDetail />} />
+          <Route path="/clients" element={<Clients />} />
+          <Route path="/clients/:name" element={<ClientDetail />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
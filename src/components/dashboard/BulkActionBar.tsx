@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Building2, ChevronDown, DollarSign, Download, Trash2, X } from "lucide-react";
+import { CAMPAIGN_STATUSES } from "@/services/mockData";
+import { CAMPAIGN_STATUS_LABELS } from "@/services/campaignEditing";
+import type { BudgetAdjustmentMode, BulkAction } from "@/services/campaignBulkActions";
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  onAction: (action: BulkAction) => void;
+  onExport: () => void;
+  onClearSelection: () => void;
+  /** Suggested when reassigning the client */
+  clients?: string[];
+}
+
+export function BulkActionBar({ selectedCount, onAction, onExport, onClearSelection, clients = [] }: BulkActionBarProps) {
+  const [budgetMode, setBudgetMode] = useState<BudgetAdjustmentMode>('percent');
+  const [budgetValue, setBudgetValue] = useState('');
+  const [isBudgetOpen, setIsBudgetOpen] = useState(false);
+  const [client, setClient] = useState('');
+  const [isClientOpen, setIsClientOpen] = useState(false);
+
+  const budgetAdjustment = Number(budgetValue);
+  const canAdjustBudget = budgetValue.trim() !== '' && Number.isFinite(budgetAdjustment) && budgetAdjustment !== 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border bg-muted/40 px-3 py-2 mb-4">
+      <span className="text-sm font-medium mr-2">{selectedCount} selected</span>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1">
+            Status
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {CAMPAIGN_STATUSES.map(status => (
+            <DropdownMenuItem key={status} onSelect={() => onAction({ type: 'status', status })}>
+              {CAMPAIGN_STATUS_LABELS[status]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Popover open={isBudgetOpen} onOpenChange={setIsBudgetOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1">
+            <DollarSign className="h-3 w-3" />
+            Budget
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 space-y-3">
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!canAdjustBudget) return;
+              onAction({ type: 'budget', mode: budgetMode, value: budgetAdjustment });
+              setIsBudgetOpen(false);
+              setBudgetValue('');
+            }}
+          >
+            <div className="space-y-1">
+              <Label className="text-sm font-medium">Adjust budget by</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={budgetMode}
+                onValueChange={(value) => value && setBudgetMode(value as BudgetAdjustmentMode)}
+                className="justify-start"
+              >
+                <ToggleGroupItem value="percent">Percent</ToggleGroupItem>
+                <ToggleGroupItem value="amount">Amount</ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+            <Input
+              type="number"
+              step={budgetMode === 'percent' ? '1' : '100'}
+              value={budgetValue}
+              onChange={(e) => setBudgetValue(e.target.value)}
+              placeholder={budgetMode === 'percent' ? "e.g. 10 or -15" : "e.g. 5000 or -2000"}
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">Negative values reduce the budget.</p>
+            <Button type="submit" size="sm" className="w-full" disabled={!canAdjustBudget}>
+              Review change
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      <Popover open={isClientOpen} onOpenChange={setIsClientOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-1">
+            <Building2 className="h-3 w-3" />
+            Client
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64">
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!client.trim()) return;
+              onAction({ type: 'client', client });
+              setIsClientOpen(false);
+              setClient('');
+            }}
+          >
+            <Label htmlFor="bulk-client" className="text-sm font-medium">Reassign to client</Label>
+            <Input id="bulk-client" list="bulk-client-options" value={client} onChange={(e) => setClient(e.target.value)} autoFocus />
+            <datalist id="bulk-client-options">
+              {clients.map(option => <option key={option} value={option} />)}
+            </datalist>
+            <Button type="submit" size="sm" className="w-full" disabled={!client.trim()}>
+              Review change
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="outline" size="sm" className="gap-1" onClick={onExport}>
+        <Download className="h-3 w-3" />
+        Export
+      </Button>
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-1 text-danger hover:text-danger"
+        onClick={() => onAction({ type: 'delete' })}
+      >
+        <Trash2 className="h-3 w-3" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" className="gap-1 ml-auto" onClick={onClearSelection}>
+        <X className="h-3 w-3" />
+        Clear selection
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { cn } from "@/lib/utils";
+import { buttonVariants } from "@/components/ui/button";
+import { describeBulkAction, type BulkActionPlan } from "@/services/campaignBulkActions";
+import { UNDO_WINDOW_MS } from "@/hooks/use-campaign-bulk-actions";
+
+interface BulkActionConfirmDialogProps {
+  /** The action awaiting confirmation; the dialog is closed while null */
+  plan: BulkActionPlan | null;
+  onConfirm: (plan: BulkActionPlan) => void;
+  onCancel: () => void;
+}
+
+const VISIBLE_SKIPS = 5;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+const plural = (count: number) => `${count} campaign${count === 1 ? '' : 's'}`;
+
+export function BulkActionConfirmDialog({ plan, onConfirm, onCancel }: BulkActionConfirmDialogProps) {
+  const isDelete = plan?.action.type === 'delete';
+  const affected = (isDelete ? plan?.deletions.length : plan?.updates.length) ?? 0;
+
+  return (
+    <AlertDialog open={plan !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent>
+        {plan && (
+          <>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{describeBulkAction(plan.action)}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {affected === 0
+                  ? "None of the selected campaigns would change."
+                  : isDelete
+                    ? `${plural(affected)} and their delivery history will be removed.`
+                    : `${plural(affected)} will be updated.`}
+                {affected > 0 && ` You can undo this for ${UNDO_WINDOW_MS / 1000} seconds afterwards.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+
+            {affected > 0 && (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-1 rounded-lg border p-3 text-sm">
+                <dt className="text-muted-foreground">Total budget</dt>
+                <dd className="text-right font-mono">
+                  {isDelete || plan.budgetAfter === plan.budgetBefore
+                    ? formatCurrency(plan.budgetBefore)
+                    : `${formatCurrency(plan.budgetBefore)} → ${formatCurrency(plan.budgetAfter)}`}
+                </dd>
+                <dt className="text-muted-foreground">Spent to date</dt>
+                <dd className="text-right font-mono">{formatCurrency(plan.spent)}</dd>
+              </dl>
+            )}
+
+            {plan.skipped.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <div className="font-medium">{plural(plan.skipped.length)} will be skipped</div>
+                <ul className="space-y-0.5 text-muted-foreground">
+                  {plan.skipped.slice(0, VISIBLE_SKIPS).map(({ campaign, reason }) => (
+                    <li key={campaign.id} className="truncate">{campaign.name}: {reason}</li>
+                  ))}
+                  {plan.skipped.length > VISIBLE_SKIPS && <li>and {plan.skipped.length - VISIBLE_SKIPS} more</li>}
+                </ul>
+              </div>
+            )}
+
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                disabled={affected === 0}
+                onClick={() => onConfirm(plan)}
+                className={cn(isDelete && buttonVariants({ variant: "destructive" }))}
+              >
+                {isDelete ? `Delete ${plural(affected)}` : `Update ${plural(affected)}`}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </>
+        )}
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { CampaignData, CAMPAIGN_STATUSES } from "@/services/mockData";
+import {
+  CAMPAIGN_STATUS_LABELS,
+  createCampaignSchema,
+  toCampaignInput,
+  type CampaignInput
+} from "@/services/campaignEditing";
+import { toISODate, shiftISODate } from "@/lib/dates";
+import { useCampaignMutations } from "@/hooks/use-campaign-mutations";
+import { useToast } from "@/hooks/use-toast";
+
+interface CampaignFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The campaign to edit; a new campaign is created when omitted */
+  campaign?: CampaignData;
+  /** Suggested while typing the client */
+  clients?: string[];
+}
+
+const newCampaignValues = (): CampaignInput => {
+  const today = toISODate(new Date());
+  return { name: '', client: '', budget: 10000, startDate: today, endDate: shiftISODate(today, 29), status: 'active' };
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 2 }).format(value);
+
+export function CampaignFormDialog({ open, onOpenChange, campaign, clients = [] }: CampaignFormDialogProps) {
+  const { toast } = useToast();
+  const { createCampaign, updateCampaign } = useCampaignMutations();
+  const spent = campaign?.spent ?? 0;
+  const schema = useMemo(() => createCampaignSchema(spent), [spent]);
+  const form = useForm<CampaignInput>({
+    resolver: zodResolver(schema),
+    defaultValues: campaign ? toCampaignInput(campaign) : newCampaignValues()
+  });
+  const { reset } = form;
+
+  // Every visit starts from the campaign as it is now, or a blank campaign
+  useEffect(() => {
+    if (open) reset(campaign ? toCampaignInput(campaign) : newCampaignValues());
+  }, [open, campaign, reset]);
+
+  const handleSubmit = async (values: CampaignInput) => {
+    try {
+      const saved = campaign
+        ? await updateCampaign({ id: campaign.id, changes: values })
+        : await createCampaign(values);
+      toast({
+        title: campaign ? "Campaign Updated" : "Campaign Created",
+        description: `${saved.name} has been saved`,
+        duration: 3000,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Unable to save campaign",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{campaign ? "Edit Campaign" : "New Campaign"}</DialogTitle>
+          <DialogDescription>
+            {campaign ? `${campaign.id} · delivery so far is kept` : "The campaign starts with no delivery."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Spring Sale - Search" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="client"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Client</FormLabel>
+                  <FormControl>
+                    <Input list="campaign-form-clients" {...field} />
+                  </FormControl>
+                  <datalist id="campaign-form-clients">
+                    {clients.map(client => <option key={client} value={client} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="budget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Budget</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" {...field} />
+                    </FormControl>
+                    {campaign && <FormDescription>{formatCurrency(spent)} spent so far</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Status</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CAMPAIGN_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{CAMPAIGN_STATUS_LABELS[status]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "Saving..." : campaign ? "Save changes" : "Create campaign"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,232 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Upload } from "lucide-react";
+import { formatDateRange, type DateRange } from "@/lib/dates";
+import {
+  IMPORT_FIELDS,
+  importedDateRange,
+  missingRequiredFields,
+  parseImportFile,
+  suggestMapping,
+  validateImport,
+  type ImportFieldId,
+  type ImportMapping,
+  type ImportSource
+} from "@/services/campaignImport";
+import { useCampaignImport } from "@/hooks/use-campaign-import";
+import { useToast } from "@/hooks/use-toast";
+
+interface CampaignImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Called with the imported flights' dates, e.g. to report over them rather than the default range */
+  onImported: (dateRange: DateRange) => void;
+}
+
+// Select items cannot have an empty value
+const UNMAPPED = '__unmapped';
+
+const VISIBLE_ERRORS = 50;
+
+export function CampaignImportDialog({ open, onOpenChange, onImported }: CampaignImportDialogProps) {
+  const { toast } = useToast();
+  const { importCampaigns } = useCampaignImport();
+  const [filename, setFilename] = useState('');
+  const [source, setSource] = useState<ImportSource | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Every visit starts from a fresh file
+  useEffect(() => {
+    if (open) {
+      setFilename('');
+      setSource(null);
+      setMapping({});
+      setReadError(null);
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFilename(file.name);
+    try {
+      const parsed = parseImportFile(await file.text(), file.name);
+      setSource(parsed);
+      setMapping(suggestMapping(parsed.columns));
+      setReadError(null);
+    } catch (error) {
+      setSource(null);
+      setReadError(error instanceof Error ? error.message : "The file could not be read");
+    }
+  };
+
+  const updateMapping = (field: ImportFieldId, column: string) => {
+    setMapping(current => ({ ...current, [field]: column === UNMAPPED ? undefined : column }));
+  };
+
+  const missing = missingRequiredFields(mapping);
+  const result = useMemo(
+    () => (source && missingRequiredFields(mapping).length === 0 ? validateImport(source, mapping) : null),
+    [source, mapping]
+  );
+
+  const handleImport = async () => {
+    if (!result || result.campaigns.length === 0) return;
+    setIsImporting(true);
+    try {
+      await importCampaigns(result.campaigns, filename);
+      const dateRange = importedDateRange(result.campaigns);
+      onImported(dateRange);
+      toast({
+        title: "Campaigns Imported",
+        description: `${result.campaigns.length} campaigns from ${filename} are now shown on the dashboard for ${formatDateRange(dateRange)}`,
+        duration: 3000,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "Unable to import campaigns. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Import Campaigns
+          </DialogTitle>
+          <DialogDescription>
+            Load campaigns from a CSV or JSON file. They replace the dashboard's data until you reset it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* File */}
+        <div className="space-y-1">
+          <Label htmlFor="campaign-import-file">File</Label>
+          <Input
+            id="campaign-import-file"
+            type="file"
+            accept=".csv,.json,text/csv,application/json"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+          {readError && <p className="text-sm text-danger">{readError}</p>}
+          {source && (
+            <p className="text-xs text-muted-foreground">
+              {source.rows.length} rows, {source.columns.length} columns
+            </p>
+          )}
+        </div>
+
+        {/* Column Mapping */}
+        {source && (
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Columns</Label>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {IMPORT_FIELDS.map(field => (
+                <div key={field.id} className="space-y-1">
+                  <Label className="text-xs font-normal text-muted-foreground">
+                    {field.label}
+                    {field.required && <span className="text-danger"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field.id] ?? UNMAPPED}
+                    onValueChange={(value) => updateMapping(field.id, value)}
+                  >
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>{field.required ? "Choose a column" : "Not imported"}</SelectItem>
+                      {source.columns.map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Validation */}
+        {source && missing.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Choose a column for {missing.map(field => field.label).join(', ')}.
+          </p>
+        )}
+        {result && (
+          <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle2 className="h-3 w-3 text-success" />
+                {result.campaigns.length} valid
+              </Badge>
+              {result.rejectedRows > 0 && (
+                <Badge variant="destructive" className="gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  {result.rejectedRows} rejected
+                </Badge>
+              )}
+              <span className="text-xs text-muted-foreground">CTR and CPC are recalculated from the imported totals.</span>
+            </div>
+            {result.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto rounded-lg border divide-y text-sm">
+                {result.errors.slice(0, VISIBLE_ERRORS).map((error, index) => (
+                  <div key={index} className="flex gap-3 px-3 py-1.5">
+                    <span className="shrink-0 text-muted-foreground">Row {error.row}</span>
+                    <span>{error.message}</span>
+                  </div>
+                ))}
+                {result.errors.length > VISIBLE_ERRORS && (
+                  <div className="px-3 py-1.5 text-xs text-muted-foreground">
+                    and {result.errors.length - VISIBLE_ERRORS} more
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!result || result.campaigns.length === 0 || isImporting}
+            className="gap-2"
+          >
+            <Upload className="h-4 w-4" />
+            {isImporting ? "Importing..." : `Import ${result?.campaigns.length ?? 0} campaigns`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
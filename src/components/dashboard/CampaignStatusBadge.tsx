@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { CampaignData } from "@/services/mockData";
+import { cn } from "@/lib/utils";
+
+interface CampaignStatusBadgeProps {
+  status: CampaignData['status'];
+  className?: string;
+}
+
+const variants: Record<CampaignData['status'], string> = {
+  active: "bg-success-light text-success border-success/20",
+  paused: "bg-warning-light text-warning border-warning/20",
+  completed: "bg-info-light text-info border-info/20",
+  archived: "bg-muted text-muted-foreground border-border"
+};
+
+export function CampaignStatusBadge({ status, className }: CampaignStatusBadgeProps) {
+  return (
+    <Badge
+      variant="secondary"
+      className={cn("border", variants[status], className)}
+    >
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </Badge>
+  );
+}
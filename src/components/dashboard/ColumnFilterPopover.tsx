@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Filter } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { COLUMN_FILTER_TYPES, isActiveFilter, type ColumnFilter } from "@/services/campaignQuery";
+import type { CampaignTableColumn } from "@/services/campaignTableLayout";
+
+interface ColumnFilterPopoverProps {
+  column: CampaignTableColumn;
+  filter?: ColumnFilter;
+  /** Called with undefined when the filter is cleared */
+  onChange: (filter?: ColumnFilter) => void;
+  /** Choices offered by client and status filters */
+  options?: Array<{ value: string; label: string }>;
+}
+
+// Bounds stay as typed text until the filter is applied
+interface FilterDraft {
+  low: string;
+  high: string;
+  values: string[];
+}
+
+const SEARCHABLE_OPTIONS = 8;
+
+const toDraft = (filter?: ColumnFilter): FilterDraft => {
+  switch (filter?.type) {
+    case 'range':
+      return { low: filter.min?.toString() ?? '', high: filter.max?.toString() ?? '', values: [] };
+    case 'dates':
+      return { low: filter.from ?? '', high: filter.to ?? '', values: [] };
+    case 'values':
+      return { low: '', high: '', values: filter.values };
+    default:
+      return { low: '', high: '', values: [] };
+  }
+};
+
+const readNumber = (raw: string) => (raw.trim() === '' ? undefined : Number(raw));
+
+const fromDraft = (type: ColumnFilter['type'], draft: FilterDraft): ColumnFilter => {
+  switch (type) {
+    case 'range':
+      return { type, min: readNumber(draft.low), max: readNumber(draft.high) };
+    case 'dates':
+      return { type, from: draft.low || undefined, to: draft.high || undefined };
+    case 'values':
+    default:
+      return { type: 'values', values: draft.values };
+  }
+};
+
+const boundsError = (filter: ColumnFilter): string | null => {
+  if (filter.type === 'range') {
+    if ([filter.min, filter.max].some(bound => bound !== undefined && !Number.isFinite(bound))) return 'Enter numbers';
+    if (filter.min !== undefined && filter.max !== undefined && filter.min > filter.max) return 'Min must not exceed max';
+  }
+  if (filter.type === 'dates' && filter.from && filter.to && filter.from > filter.to) {
+    return 'From must not be after to';
+  }
+  return null;
+};
+
+export function ColumnFilterPopover({ column, filter, onChange, options = [] }: ColumnFilterPopoverProps) {
+  const type = COLUMN_FILTER_TYPES[column.id];
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<FilterDraft>(() => toDraft(filter));
+  const [optionSearch, setOptionSearch] = useState('');
+  const isActive = isActiveFilter(filter);
+
+  const pending = fromDraft(type, draft);
+  const error = boundsError(pending);
+  const unit = { currency: ' ($)', percent: ' (%)', ratio: ' (x)' }[column.format] ?? '';
+  const visibleOptions = options.filter(option => option.label.toLowerCase().includes(optionSearch.trim().toLowerCase()));
+
+  const handleOpenChange = (isOpen: boolean) => {
+    // Start from the applied filter each time
+    if (isOpen) {
+      setDraft(toDraft(filter));
+      setOptionSearch('');
+    }
+    setOpen(isOpen);
+  };
+
+  const toggleValue = (value: string) => {
+    setDraft(current => ({
+      ...current,
+      values: current.values.includes(value)
+        ? current.values.filter(selected => selected !== value)
+        : [...current.values, value]
+    }));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn("h-6 w-6 shrink-0", isActive ? "text-primary" : "text-muted-foreground")}
+          aria-label={`Filter ${column.label}`}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Filter className={cn("h-3.5 w-3.5", isActive && "fill-current")} />
+        </Button>
+      </PopoverTrigger>
+      {/* Header clicks sort and drag the column; keep them from bubbling out of the popover */}
+      <PopoverContent
+        align="start"
+        className="w-64"
+        onClick={(e) => e.stopPropagation()}
+        onDragStart={(e) => e.stopPropagation()}
+      >
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (error) return;
+            onChange(pending);
+            setOpen(false);
+          }}
+        >
+          <div className="text-sm font-medium">Filter {column.label}</div>
+
+          {type === 'values' ? (
+            <div className="space-y-2">
+              {options.length > SEARCHABLE_OPTIONS && (
+                <Input
+                  value={optionSearch}
+                  onChange={(e) => setOptionSearch(e.target.value)}
+                  placeholder={`Search ${column.label.toLowerCase()}...`}
+                  className="h-8"
+                  autoFocus
+                />
+              )}
+              <div className="max-h-56 space-y-2 overflow-y-auto">
+                {visibleOptions.map(option => (
+                  <div key={option.value} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`filter-${column.id}-${option.value}`}
+                      checked={draft.values.includes(option.value)}
+                      onCheckedChange={() => toggleValue(option.value)}
+                    />
+                    <Label htmlFor={`filter-${column.id}-${option.value}`} className="text-sm font-normal cursor-pointer truncate">
+                      {option.label}
+                    </Label>
+                  </div>
+                ))}
+                {visibleOptions.length === 0 && <p className="text-sm text-muted-foreground">No matches</p>}
+              </div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor={`filter-${column.id}-low`} className="text-xs text-muted-foreground">
+                  {type === 'dates' ? 'From' : `Min${unit}`}
+                </Label>
+                <Input
+                  id={`filter-${column.id}-low`}
+                  type={type === 'dates' ? 'date' : 'number'}
+                  step="any"
+                  value={draft.low}
+                  onChange={(e) => setDraft(current => ({ ...current, low: e.target.value }))}
+                  className="h-8"
+                  autoFocus
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`filter-${column.id}-high`} className="text-xs text-muted-foreground">
+                  {type === 'dates' ? 'To' : `Max${unit}`}
+                </Label>
+                <Input
+                  id={`filter-${column.id}-high`}
+                  type={type === 'dates' ? 'date' : 'number'}
+                  step="any"
+                  value={draft.high}
+                  onChange={(e) => setDraft(current => ({ ...current, high: e.target.value }))}
+                  className="h-8"
+                />
+              </div>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-danger">{error}</p>}
+
+          <div className="flex justify-between gap-2">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={!isActive}
+              onClick={() => {
+                onChange(undefined);
+                setOpen(false);
+              }}
+            >
+              Clear
+            </Button>
+            <Button type="submit" size="sm" disabled={!!error}>
+              Apply
+            </Button>
+          </div>
+        </form>
+      </PopoverContent>
+    </Popover>
+  );
+}
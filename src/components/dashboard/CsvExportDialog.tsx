@@ -0,0 +1,341 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { ArrowDown, ArrowUp, Download } from "lucide-react";
+import { CampaignData } from "@/services/mockData";
+import { exportFilename } from "@/services/exportPipeline";
+import {
+  buildCampaignCsv,
+  CSV_COLUMNS,
+  CSV_DELIMITER_LABELS,
+  CSV_ENCODING_LABELS,
+  CSV_SCOPE_LABELS,
+  encodeCsv,
+  getCsvColumn,
+  loadCsvExportOptions,
+  saveCsvExportOptions,
+  type CsvColumnId,
+  type CsvDelimiter,
+  type CsvEncoding,
+  type CsvExportOptions,
+  type CsvScope
+} from "@/services/csvExport";
+import { useExport } from "@/hooks/use-export";
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Rows on the table's current page */
+  pageRows: CampaignData[];
+  /** Every row matching the dashboard and table filters, in table order */
+  filteredRows: CampaignData[];
+  /** Loads the filtered rows instead, when the table only holds the page it shows */
+  loadFilteredRows?: () => Promise<CampaignData[]>;
+  /** How many rows `loadFilteredRows` will return */
+  filteredCount?: number;
+  /** Loads every campaign regardless of filters; the "all" scope is hidden without it */
+  loadAllRows?: () => Promise<CampaignData[]>;
+  /** Rows picked in the table; the "selected" scope is hidden when there are none */
+  selectedRows?: CampaignData[];
+  /** Rows to start with instead of the last exported scope, e.g. "selected" from the bulk actions */
+  initialScope?: CsvScope;
+  /** The day pacing is measured on; today when omitted */
+  asOf?: string;
+  /** Used in the file name, which also carries the export time */
+  name?: string;
+  onExported?: () => void;
+}
+
+// Plain numbers keep a dot decimal separator for scripts; the locales use the separator
+// their spreadsheets expect, e.g. 1234,56 for German Excel
+const PLAIN_NUMBERS = 'plain';
+const LOCALES = [
+  { value: PLAIN_NUMBERS, label: 'Plain numbers (1234.56)' },
+  { value: 'en-US', label: 'English – US (1234.56)' },
+  { value: 'en-GB', label: 'English – UK (1234.56)' },
+  { value: 'de-DE', label: 'German (1234,56)' },
+  { value: 'fr-FR', label: 'French (1234,56)' },
+  { value: 'es-ES', label: 'Spanish (1234,56)' }
+];
+
+const DECIMAL_OPTIONS = [0, 1, 2, 3, 4];
+
+const PREVIEW_ROWS = 2;
+
+export function CsvExportDialog({
+  open,
+  onOpenChange,
+  pageRows,
+  filteredRows,
+  loadFilteredRows,
+  filteredCount = filteredRows.length,
+  loadAllRows,
+  selectedRows = [],
+  initialScope,
+  asOf,
+  name = 'Campaign Data',
+  onExported
+}: CsvExportDialogProps) {
+  const { saveFile } = useExport();
+  const [options, setOptions] = useState<CsvExportOptions>(loadCsvExportOptions);
+  const [isExporting, setIsExporting] = useState(false);
+
+  // Start from the settings last exported with each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const saved = loadCsvExportOptions();
+    setOptions(initialScope ? { ...saved, scope: initialScope } : saved);
+  }, [open, initialScope]);
+
+  const isScopeAvailable = (option: CsvScope) =>
+    (option !== 'all' || !!loadAllRows) && (option !== 'selected' || selectedRows.length > 0);
+  const scope: CsvScope = isScopeAvailable(options.scope) ? options.scope : 'filtered';
+
+  const updateOptions = (changes: Partial<CsvExportOptions>) => setOptions(current => ({ ...current, ...changes }));
+
+  // Chosen columns first, in export order, then the rest in their default order
+  const orderedColumns = useMemo(
+    () => [
+      ...options.columns.map(getCsvColumn).filter(column => column !== undefined),
+      ...CSV_COLUMNS.filter(column => !options.columns.includes(column.id))
+    ],
+    [options.columns]
+  );
+
+  const toggleColumn = (id: CsvColumnId) => {
+    updateOptions({
+      columns: options.columns.includes(id)
+        ? options.columns.filter(column => column !== id)
+        : [...options.columns, id]
+    });
+  };
+
+  const moveColumn = (id: CsvColumnId, offset: -1 | 1) => {
+    const index = options.columns.indexOf(id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= options.columns.length) return;
+
+    const columns = [...options.columns];
+    [columns[index], columns[target]] = [columns[target], columns[index]];
+    updateOptions({ columns });
+  };
+
+  const preview = useMemo(
+    () => buildCampaignCsv((pageRows.length > 0 ? pageRows : filteredRows).slice(0, PREVIEW_ROWS), options, asOf),
+    [pageRows, filteredRows, options, asOf]
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    const exportOptions = { ...options, scope };
+    const file = await saveFile(`${CSV_SCOPE_LABELS[scope]} CSV`, async () => {
+      const rows = scope === 'page'
+        ? pageRows
+        : scope === 'selected'
+          ? selectedRows
+          : scope === 'all' && loadAllRows
+            ? await loadAllRows()
+            : loadFilteredRows ? await loadFilteredRows() : filteredRows;
+      const blob = encodeCsv(buildCampaignCsv(rows, exportOptions, asOf), exportOptions);
+      return { filename: exportFilename(name, 'csv'), mimeType: blob.type, blob };
+    });
+    setIsExporting(false);
+
+    if (file) {
+      saveCsvExportOptions(exportOptions);
+      onExported?.();
+      onOpenChange(false);
+    }
+  };
+
+  const scopeCounts: Record<CsvScope, string | null> = {
+    page: `${pageRows.length}`,
+    filtered: `${filteredCount}`,
+    all: null,
+    selected: `${selectedRows.length}`
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export CSV</DialogTitle>
+          <DialogDescription>Choose the rows, columns and file format for the export.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Columns */}
+          <div className="space-y-2">
+            <Label className="text-sm font-medium">Columns</Label>
+            <div className="max-h-80 overflow-y-auto rounded-lg border divide-y">
+              {orderedColumns.map(column => {
+                const index = options.columns.indexOf(column.id);
+                const selected = index >= 0;
+                return (
+                  <div key={column.id} className="flex items-center gap-2 px-3 py-1.5">
+                    <Checkbox
+                      id={`csv-column-${column.id}`}
+                      checked={selected}
+                      onCheckedChange={() => toggleColumn(column.id)}
+                    />
+                    <Label htmlFor={`csv-column-${column.id}`} className="flex-1 text-sm font-normal cursor-pointer">
+                      {column.label}
+                    </Label>
+                    {column.computed && <Badge variant="secondary" className="text-xs">Computed</Badge>}
+                    {selected && (
+                      <div className="flex">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title="Move up"
+                          disabled={index === 0}
+                          onClick={() => moveColumn(column.id, -1)}
+                        >
+                          <ArrowUp className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          title="Move down"
+                          disabled={index === options.columns.length - 1}
+                          onClick={() => moveColumn(column.id, 1)}
+                        >
+                          <ArrowDown className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            {/* Rows */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Rows</Label>
+              <RadioGroup value={scope} onValueChange={(value) => updateOptions({ scope: value as CsvScope })}>
+                {(Object.keys(CSV_SCOPE_LABELS) as CsvScope[])
+                  .filter(isScopeAvailable)
+                  .map(option => (
+                    <div key={option} className="flex items-center gap-2">
+                      <RadioGroupItem value={option} id={`csv-scope-${option}`} />
+                      <Label htmlFor={`csv-scope-${option}`} className="text-sm font-normal cursor-pointer">
+                        {CSV_SCOPE_LABELS[option]}
+                        {scopeCounts[option] && <span className="text-muted-foreground"> ({scopeCounts[option]})</span>}
+                      </Label>
+                    </div>
+                  ))}
+              </RadioGroup>
+            </div>
+
+            {/* File Format */}
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">Delimiter</Label>
+                <Select value={options.delimiter} onValueChange={(value) => updateOptions({ delimiter: value as CsvDelimiter })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CSV_DELIMITER_LABELS) as CsvDelimiter[]).map(delimiter => (
+                      <SelectItem key={delimiter} value={delimiter}>{CSV_DELIMITER_LABELS[delimiter]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">Encoding</Label>
+                <Select value={options.encoding} onValueChange={(value) => updateOptions({ encoding: value as CsvEncoding })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map(encoding => (
+                      <SelectItem key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">Number format</Label>
+                <Select
+                  value={options.locale ?? PLAIN_NUMBERS}
+                  onValueChange={(value) => updateOptions({ locale: value === PLAIN_NUMBERS ? null : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LOCALES.map(locale => (
+                      <SelectItem key={locale.value} value={locale.value}>{locale.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-sm font-medium">Decimals</Label>
+                <Select value={String(options.decimals)} onValueChange={(value) => updateOptions({ decimals: Number(value) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DECIMAL_OPTIONS.map(decimals => (
+                      <SelectItem key={decimals} value={String(decimals)}>{decimals}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="csv-bom"
+                checked={options.includeBom}
+                onCheckedChange={(checked) => updateOptions({ includeBom: checked === true })}
+              />
+              <Label htmlFor="csv-bom" className="text-sm font-normal cursor-pointer">
+                Include byte order mark (needed by Excel)
+              </Label>
+            </div>
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-1">
+          <Label className="text-sm font-medium">Preview</Label>
+          <pre className="max-h-32 overflow-auto rounded-lg bg-muted p-3 text-xs">{preview || "No columns selected"}</pre>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={options.columns.length === 0 || isExporting} className="gap-2">
+            <Download className="h-4 w-4" />
+            {isExporting ? "Exporting..." : "Export"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,18 +1,26 @@
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Activity, BarChart3, RefreshCw } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Activity, BarChart3, Building2, RefreshCw, Upload, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface DashboardHeaderProps {
   isRealTimeActive: boolean;
   onToggleRealTime: () => void;
   lastUpdated: Date;
+  onImport?: () => void;
+  /** Names the imported file while imported campaigns replace the dashboard's data */
+  importedLabel?: string | null;
+  onResetImport?: () => void;
 }
 
 export function DashboardHeader({ 
   isRealTimeActive, 
   onToggleRealTime, 
-  lastUpdated 
+  lastUpdated,
+  onImport,
+  importedLabel,
+  onResetImport
 }: DashboardHeaderProps) {
   return (
     <div className="col-span-full">
@@ -27,6 +35,21 @@ export function DashboardHeader({
           <p className="text-muted-foreground">
             Comprehensive dashboard for campaign performance and business insights
           </p>
+          {importedLabel && (
+            <Badge variant="outline" className="gap-2">
+              Imported data: {importedLabel}
+              {onResetImport && (
+                <button
+                  type="button"
+                  onClick={onResetImport}
+                  className="text-muted-foreground hover:text-foreground"
+                  title="Back to the original data"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </Badge>
+          )}
         </div>
         
         <div className="flex items-center gap-4">
@@ -37,6 +60,20 @@ export function DashboardHeader({
             </div>
           </div>
           
+          {onImport && (
+            <Button variant="outline" onClick={onImport} className="gap-2">
+              <Upload className="h-4 w-4" />
+              Import
+            </Button>
+          )}
+          
+          <Button asChild variant="outline" className="gap-2">
+            <Link to="/clients">
+              <Building2 className="h-4 w-4" />
+              Clients
+            </Link>
+          </Button>
+          
           <Button
             variant={isRealTimeActive ? "default" : "outline"}
             onClick={onToggleRealTime}
@@ -1,7 +1,10 @@
-import { useState, useMemo } from "react";
+import { useState, useMemo, useRef, useId, useEffect, type ReactNode } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { 
   Select, 
@@ -14,130 +17,530 @@ import {
   Table, 
   TableBody, 
   TableCell, 
+  TableFooter,
   TableHead, 
   TableHeader, 
   TableRow 
 } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import { 
   ArrowUpDown, 
   ArrowUp, 
   ArrowDown, 
   Search, 
-  Filter,
+  X,
   Download,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Columns3,
+  Layers,
+  MoreHorizontal,
+  Pause,
+  Play,
+  Pencil,
+  Archive,
+  ArchiveRestore,
+  Plus,
+  GripVertical,
+  RotateCcw,
+  Loader2
 } from "lucide-react";
-import { CampaignData } from "@/services/mockData";
-import { ExportService } from "@/services/exportService";
+import { CampaignData, CAMPAIGN_STATUSES } from "@/services/mockData";
+import {
+  archiveToggleStatus,
+  CAMPAIGN_STATUS_LABELS,
+  isInlineEditable,
+  pauseToggleStatus,
+  type CampaignChanges
+} from "@/services/campaignEditing";
 import { cn } from "@/lib/utils";
+import { CampaignStatusBadge } from "@/components/dashboard/CampaignStatusBadge";
+import { CsvExportDialog } from "@/components/dashboard/CsvExportDialog";
+import { BulkActionBar } from "@/components/dashboard/BulkActionBar";
+import { ColumnFilterPopover } from "@/components/dashboard/ColumnFilterPopover";
+import { InlineCellEditor } from "@/components/dashboard/InlineCellEditor";
+import type { BulkAction } from "@/services/campaignBulkActions";
+import { totalCampaigns, type CampaignTotals } from "@/services/aggregations";
+import {
+  CAMPAIGN_GROUP_BY_LABELS,
+  CAMPAIGN_GROUP_BYS,
+  campaignGroupKey,
+  type CampaignGroupBy,
+  type CampaignGroupSummary
+} from "@/services/campaignGrouping";
+import type { CsvScope } from "@/services/csvExport";
+import {
+  DEFAULT_TABLE_STATE,
+  type CampaignColumnId,
+  type CampaignTableState
+} from "@/services/viewState";
+import {
+  columnWidth,
+  DEFAULT_TABLE_LAYOUT,
+  describeColumnFilter,
+  getCampaignTableColumn,
+  loadTableLayout,
+  moveColumn,
+  PINNED_COLUMN,
+  resizeColumn,
+  saveTableLayout,
+  type CampaignTableLayout
+} from "@/services/campaignTableLayout";
+import {
+  clampPage,
+  DEFAULT_PAGE_SIZE,
+  filterAndSortCampaigns,
+  isActiveFilter,
+  pageCount,
+  pageNumbers,
+  PAGE_SIZE_OPTIONS,
+  setColumnFilter,
+  sliceCampaignPage,
+  toggleSort,
+  type CampaignPage,
+  type ColumnFilter
+} from "@/services/campaignQuery";
+import {
+  campaignMetric,
+  DERIVED_METRICS,
+  totalsMetrics,
+  type CampaignValueKey,
+  type DerivedMetricId
+} from "@/services/performanceMetrics";
+import { parseISODate } from "@/lib/dates";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+
+/** Rows answered page by page by the data source for the table's current state */
+export interface ServerPagedRows {
+  /** Undefined until the first page arrives */
+  page?: CampaignPage;
+  isFetching: boolean;
+  /** Every campaign matching the table state, for "select all" and the CSV export */
+  loadMatching: () => Promise<CampaignData[]>;
+  /** Offers scrolling through every match of an ungrouped table, fetched a window of rows at a time */
+  scroll?: ServerScrolledRows;
+}
+
+/** Every campaign matching the table state by position, loaded around the rows in view */
+export interface ServerScrolledRows {
+  /** Undefined where a row's window has not arrived yet */
+  rows: Array<CampaignData | undefined>;
+  /** Rows [start, end) are in view */
+  onRowsInView: (start: number, end: number) => void;
+}
 
 interface DataTableProps {
-  data: CampaignData[];
+  /** Campaigns searched, sorted and paged in the browser */
+  data?: CampaignData[];
+  /** Leaves searching, sorting and paging to the data source; `data` is ignored */
+  server?: ServerPagedRows;
   title?: string;
+  /** Rows per page while the table keeps its own state */
   pageSize?: number;
   onExport?: () => void;
+  onRowClick?: (campaign: CampaignData) => void;
+  /** Lets the CSV export include every campaign, not just the ones passed in `data` */
+  loadAllCampaigns?: () => Promise<CampaignData[]>;
+  /** Search, filters, sort, grouping, page and page size; the table keeps its own state when omitted */
+  state?: CampaignTableState;
+  onStateChange?: (state: CampaignTableState, options?: { replace?: boolean }) => void;
+  /** Offered by the client filter and bulk reassignment; taken from the campaigns shown when omitted */
+  clients?: string[];
+  /** Shows a "New Campaign" button */
+  onCreateCampaign?: () => void;
+  onEditCampaign?: (campaign: CampaignData) => void;
+  /** Pause, resume, archive and restore actions on each row */
+  onStatusChange?: (campaign: CampaignData, status: CampaignData['status']) => void;
+  /** Makes budget, status and date cells editable in place */
+  onCellEdit?: (campaign: CampaignData, changes: CampaignChanges) => void;
+  /** A campaign whose changes are being saved; its row actions and cell editors are disabled */
+  updatingId?: string;
+  /** Adds row selection and a bulk action bar for the selected campaigns */
+  onBulkAction?: (campaigns: CampaignData[], action: BulkAction) => void;
+  /** Selected campaign ids; the table keeps its own selection when omitted */
+  selectedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
+  /** The day pacing is measured on, e.g. the reporting period's last day; today when omitted */
+  asOf?: string;
 }
 
-type SortKey = keyof CampaignData;
-type SortDirection = 'asc' | 'desc' | null;
-
-export function DataTable({ data, title = "Campaign Performance", pageSize = 10, onExport }: DataTableProps) {
-  const [search, setSearch] = useState('');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [sortKey, setSortKey] = useState<SortKey>('budget');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
-  const [currentPage, setCurrentPage] = useState(1);
-  const itemsPerPage = pageSize;
-
-  const handleSort = (key: SortKey) => {
-    if (sortKey === key) {
-      setSortDirection(prev => 
-        prev === 'asc' ? 'desc' : prev === 'desc' ? null : 'asc'
-      );
+type SortKey = CampaignValueKey;
+
+type TableItem =
+  | { type: 'group'; group: CampaignGroupSummary; collapsed: boolean }
+  | { type: 'campaign'; campaign: CampaignData }
+  | { type: 'loading'; index: number };
+
+const SELECTION_COLUMN_WIDTH = 40;
+const ACTIONS_COLUMN_WIDTH = 88;
+// Every row has the same height while scrolling through all rows, so only the visible ones are rendered
+const VIRTUAL_ROW_HEIGHT = 69;
+
+const NO_CAMPAIGNS: CampaignData[] = [];
+
+const SORT_HINT = 'Click to sort, shift-click to sort by more than one column';
+
+const STATUS_OPTIONS = CAMPAIGN_STATUSES.map(status => ({ value: status, label: CAMPAIGN_STATUS_LABELS[status] }));
+
+const formatCurrency = (value: number, fractionDigits: number = 0) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+
+const formatPercentage = (value: number) => `${value.toFixed(2)}%`;
+
+// Derived metrics are blank where undefined, e.g. CPA before the first conversion
+const formatMetric = (metric: DerivedMetricId, value: number | null): ReactNode => {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  switch (DERIVED_METRICS[metric].format) {
+    case 'currency':
+      return formatCurrency(value, 2);
+    case 'ratio':
+      return `${value.toFixed(2)}x`;
+    default:
+      return formatPercentage(value);
+  }
+};
+
+const formatDate = (value: string) =>
+  parseISODate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+const TOTAL_RENDERERS: Partial<Record<CampaignColumnId, (totals: CampaignTotals) => ReactNode>> = {
+  budget: totals => <span className="font-semibold">{formatCurrency(totals.budget)}</span>,
+  spent: totals => <span className="font-semibold">{formatCurrency(totals.spent)}</span>,
+  revenue: totals => formatCurrency(totals.revenue),
+  impressions: totals => totals.impressions.toLocaleString(),
+  clicks: totals => totals.clicks.toLocaleString(),
+  conversions: totals => <span className="font-semibold">{totals.conversions.toLocaleString()}</span>,
+  ctr: totals => <span className="font-semibold">{formatPercentage(totals.ctr)}</span>,
+  cpc: totals => formatCurrency(totals.cpc, 2),
+  cpa: totals => formatMetric('cpa', totalsMetrics(totals).cpa),
+  roas: totals => <span className="font-semibold">{formatMetric('roas', totalsMetrics(totals).roas)}</span>,
+  cpm: totals => formatMetric('cpm', totalsMetrics(totals).cpm),
+  conversionRate: totals => formatMetric('conversionRate', totalsMetrics(totals).conversionRate),
+  utilisation: totals => formatMetric('utilisation', totalsMetrics(totals).utilisation),
+  pacing: totals => formatMetric('pacing', totalsMetrics(totals).pacing)
+};
+
+const CELL_RENDERERS: Record<CampaignColumnId, (campaign: CampaignData, asOf?: string) => ReactNode> = {
+  client: campaign => campaign.client,
+  budget: campaign => <span className="font-semibold">{formatCurrency(campaign.budget)}</span>,
+  spent: campaign => (
+    <div>
+      <div className="font-semibold">{formatCurrency(campaign.spent)}</div>
+      <div className="text-xs text-muted-foreground">
+        {formatPercentage((campaign.spent / campaign.budget) * 100)} of budget
+      </div>
+    </div>
+  ),
+  revenue: campaign => formatCurrency(campaign.revenue),
+  impressions: campaign => campaign.impressions.toLocaleString(),
+  clicks: campaign => campaign.clicks.toLocaleString(),
+  conversions: campaign => <span className="font-semibold">{campaign.conversions.toLocaleString()}</span>,
+  ctr: campaign => <span className="font-semibold">{formatPercentage(campaign.ctr)}</span>,
+  cpc: campaign => formatCurrency(campaign.cpc, 2),
+  cpa: campaign => formatMetric('cpa', campaignMetric(campaign, 'cpa')),
+  roas: campaign => <span className="font-semibold">{formatMetric('roas', campaignMetric(campaign, 'roas'))}</span>,
+  cpm: campaign => formatMetric('cpm', campaignMetric(campaign, 'cpm')),
+  conversionRate: campaign => formatMetric('conversionRate', campaignMetric(campaign, 'conversionRate')),
+  utilisation: campaign => formatMetric('utilisation', campaignMetric(campaign, 'utilisation')),
+  pacing: (campaign, asOf) => formatMetric('pacing', campaignMetric(campaign, 'pacing', asOf)),
+  status: campaign => <CampaignStatusBadge status={campaign.status} />,
+  startDate: campaign => formatDate(campaign.startDate),
+  endDate: campaign => formatDate(campaign.endDate)
+};
+
+export function DataTable({
+  data = NO_CAMPAIGNS,
+  server,
+  title = "Campaign Performance",
+  pageSize: initialPageSize = DEFAULT_PAGE_SIZE,
+  onExport,
+  onRowClick,
+  loadAllCampaigns,
+  state,
+  onStateChange,
+  clients,
+  onCreateCampaign,
+  onEditCampaign,
+  onStatusChange,
+  onCellEdit,
+  updatingId,
+  onBulkAction,
+  selectedIds: controlledSelectedIds,
+  onSelectionChange,
+  asOf
+}: DataTableProps) {
+  const [internalState, setInternalState] = useState<CampaignTableState>({ ...DEFAULT_TABLE_STATE, pageSize: initialPageSize });
+  const [internalSelectedIds, setInternalSelectedIds] = useState<string[]>([]);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [exportScope, setExportScope] = useState<CsvScope | undefined>();
+  const tableState = state ?? internalState;
+  const { search, columnFilters, sort, groupBy, page, pageSize, hiddenColumns } = tableState;
+  const isServerPaged = !!server;
+  // A data source can only be scrolled through ungrouped, as group headers need every row before them
+  const canScroll = !server || (!!server.scroll && groupBy === 'none');
+  const isScrolling = canScroll && pageSize === 'all';
+  const scrolledRows = isScrolling ? server?.scroll?.rows : undefined;
+  const itemsPerPage = pageSize === 'all' ? DEFAULT_PAGE_SIZE : pageSize;
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const jumpInputId = useId();
+  const [jumpPage, setJumpPage] = useState('');
+
+  const updateTableState = (changes: Partial<CampaignTableState>, options?: { replace?: boolean }) => {
+    const updated = { ...tableState, ...changes };
+    if (onStateChange) {
+      onStateChange(updated, options);
     } else {
-      setSortKey(key);
-      setSortDirection('asc');
+      setInternalState(updated);
     }
   };
 
+  const showColumn = (column: CampaignColumnId) => !hiddenColumns.includes(column);
+  const hasRowActions = !!onEditCampaign || !!onStatusChange;
+  const isSelectable = !!onBulkAction;
+
+  // Column order and widths are arranged per user and kept on this browser
+  const [layout, setLayout] = useState<CampaignTableLayout>(loadTableLayout);
+  const layoutRef = useRef(layout);
+  const [draggedColumn, setDraggedColumn] = useState<CampaignColumnId | null>(null);
+  const [dropTarget, setDropTarget] = useState<CampaignColumnId | null>(null);
+
+  const updateLayout = (updated: CampaignTableLayout, { persist = true } = {}) => {
+    layoutRef.current = updated;
+    setLayout(updated);
+    if (persist) saveTableLayout(updated);
+  };
+
+  const visibleColumns = layout.order.filter(showColumn).map(getCampaignTableColumn);
+  const nameLeft = isSelectable ? SELECTION_COLUMN_WIDTH : 0;
+  const tableWidth = nameLeft
+    + columnWidth(layout, 'name')
+    + visibleColumns.reduce((sum, column) => sum + columnWidth(layout, column.id), 0)
+    + (hasRowActions ? ACTIONS_COLUMN_WIDTH : 0);
+
+  // Widths follow the pointer while dragging and are saved once the button is released
+  const startResize = (column: CampaignColumnId | 'name', startX: number) => {
+    const startWidth = columnWidth(layoutRef.current, column);
+    const handleMove = (e: MouseEvent) => {
+      updateLayout(resizeColumn(layoutRef.current, column, startWidth + e.clientX - startX), { persist: false });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      saveTableLayout(layoutRef.current);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  const resetLayout = () => {
+    updateLayout(DEFAULT_TABLE_LAYOUT);
+    updateTableState({ hiddenColumns: DEFAULT_TABLE_STATE.hiddenColumns });
+  };
+
+  const renderResizeHandle = (column: CampaignColumnId | 'name') => (
+    <div
+      role="separator"
+      aria-orientation="vertical"
+      aria-label="Resize column"
+      className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+      onMouseDown={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        startResize(column, e.clientX);
+      }}
+      onClick={(e) => e.stopPropagation()}
+    />
+  );
+
+  const toggleColumn = (column: CampaignColumnId) => {
+    updateTableState({
+      hiddenColumns: showColumn(column)
+        ? [...hiddenColumns, column]
+        : hiddenColumns.filter(hidden => hidden !== column)
+    });
+  };
+
+  // Shift-click adds the column to the sort instead of replacing it
+  const handleSort = (key: SortKey, multi: boolean) => {
+    updateTableState({ sort: toggleSort(sort, key, multi) });
+  };
+
   const getSortIcon = (key: SortKey) => {
-    if (sortKey !== key) return <ArrowUpDown className="h-4 w-4" />;
-    if (sortDirection === 'asc') return <ArrowUp className="h-4 w-4" />;
-    if (sortDirection === 'desc') return <ArrowDown className="h-4 w-4" />;
-    return <ArrowUpDown className="h-4 w-4" />;
+    const index = sort.findIndex(rule => rule.key === key);
+    if (index < 0) return <ArrowUpDown className="h-4 w-4 shrink-0" />;
+    const Icon = sort[index].direction === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <span className="flex items-center shrink-0">
+        <Icon className="h-4 w-4" />
+        {sort.length > 1 && <span className="text-[10px] font-semibold leading-none">{index + 1}</span>}
+      </span>
+    );
+  };
+
+  const updateColumnFilter = (column: CampaignColumnId, filter?: ColumnFilter) => {
+    updateTableState({ columnFilters: setColumnFilter(columnFilters, column, filter), page: 1 });
   };
+  const activeFilters = (Object.keys(columnFilters) as CampaignColumnId[])
+    .filter(column => isActiveFilter(columnFilters[column]))
+    .map(column => ({ column: getCampaignTableColumn(column), filter: columnFilters[column] }));
+
+  const matchingData = useMemo(
+    () => (isServerPaged ? NO_CAMPAIGNS : filterAndSortCampaigns(data, { search, filters: columnFilters, sort }, asOf)),
+    [isServerPaged, data, search, columnFilters, sort, asOf]
+  );
+
+  const currentPage = useMemo<CampaignPage>(() => {
+    if (server) {
+      return server.page ?? {
+        rows: NO_CAMPAIGNS,
+        total: 0,
+        totals: totalCampaigns(NO_CAMPAIGNS),
+        groups: [],
+        page: 1,
+        pageSize: itemsPerPage
+      };
+    }
+    if (isScrolling) return sliceCampaignPage(matchingData, 1, Math.max(matchingData.length, 1), groupBy, asOf);
+    return sliceCampaignPage(matchingData, page, itemsPerPage, groupBy, asOf);
+  }, [server, isScrolling, matchingData, page, itemsPerPage, groupBy, asOf]);
+
+  const paginatedData = useMemo(
+    () => (scrolledRows ? scrolledRows.filter(campaign => campaign !== undefined) : currentPage.rows),
+    [scrolledRows, currentPage.rows]
+  );
+  const totalRows = currentPage.total;
+  const totalPages = pageCount(totalRows, itemsPerPage);
+  const goToPage = (pageNum: number) => updateTableState({ page: clampPage(pageNum, totalRows, itemsPerPage) });
 
-  const filteredAndSortedData = useMemo(() => {
-    let filtered = data.filter(item => {
-      const matchesSearch = item.name.toLowerCase().includes(search.toLowerCase()) ||
-                           item.client.toLowerCase().includes(search.toLowerCase());
-      const matchesStatus = statusFilter === 'all' || item.status === statusFilter;
-      return matchesSearch && matchesStatus;
+  // Collapsed groups are remembered for the grouping they were collapsed under
+  const [collapsedGroups, setCollapsedGroups] = useState<{ groupBy: CampaignGroupBy; keys: string[] }>({
+    groupBy: 'none',
+    keys: []
+  });
+  const toggleGroup = (key: string) => {
+    const keys = collapsedGroups.groupBy === groupBy ? collapsedGroups.keys : [];
+    setCollapsedGroups({
+      groupBy,
+      keys: keys.includes(key) ? keys.filter(collapsed => collapsed !== key) : [...keys, key]
     });
+  };
 
-    if (sortKey && sortDirection) {
-      filtered.sort((a, b) => {
-        const aVal = a[sortKey];
-        const bVal = b[sortKey];
-        
-        if (typeof aVal === 'string' && typeof bVal === 'string') {
-          const comparison = aVal.localeCompare(bVal);
-          return sortDirection === 'asc' ? comparison : -comparison;
-        }
-        
-        if (typeof aVal === 'number' && typeof bVal === 'number') {
-          const comparison = aVal - bVal;
-          return sortDirection === 'asc' ? comparison : -comparison;
-        }
-        
-        return 0;
+  // A header row starts each group's run of rows on the page; rows of collapsed groups are left out
+  const tableItems = useMemo<TableItem[]>(() => {
+    if (scrolledRows) {
+      return Array.from({ length: totalRows }, (_, index) => {
+        const campaign = scrolledRows[index];
+        return campaign ? { type: 'campaign', campaign } : { type: 'loading', index };
       });
     }
+    if (groupBy === 'none') return paginatedData.map(campaign => ({ type: 'campaign', campaign }));
+    const summaries = new Map(currentPage.groups.map(group => [group.key, group]));
+    const items: TableItem[] = [];
+    let currentKey: string | undefined;
+    paginatedData.forEach(campaign => {
+      const key = campaignGroupKey(campaign, groupBy);
+      const collapsed = collapsedGroups.groupBy === groupBy && collapsedGroups.keys.includes(key);
+      if (key !== currentKey) {
+        currentKey = key;
+        const group = summaries.get(key) ?? { key, label: key, totals: totalCampaigns([]) };
+        items.push({ type: 'group', group, collapsed });
+      }
+      if (!collapsed) items.push({ type: 'campaign', campaign });
+    });
+    return items;
+  }, [scrolledRows, totalRows, groupBy, paginatedData, currentPage.groups, collapsedGroups]);
 
-    return filtered;
-  }, [data, search, statusFilter, sortKey, sortDirection]);
+  const virtualRows = useVirtualRows(scrollRef, {
+    count: tableItems.length,
+    rowHeight: VIRTUAL_ROW_HEIGHT,
+    enabled: isScrolling
+  });
+  const renderedItems = tableItems.slice(virtualRows.start, virtualRows.end);
+  const onRowsInView = isScrolling ? server?.scroll?.onRowsInView : undefined;
+  useEffect(() => {
+    onRowsInView?.(virtualRows.start, virtualRows.end);
+  }, [onRowsInView, virtualRows.start, virtualRows.end]);
 
-  const paginatedData = useMemo(() => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredAndSortedData.slice(startIndex, startIndex + itemsPerPage);
-  }, [filteredAndSortedData, currentPage]);
+  // A server-paged table only holds the pages it has shown, so it remembers every campaign it saw
+  const [seenCampaigns, setSeenCampaigns] = useState(() => new Map<string, CampaignData>());
+  const rememberCampaigns = (campaigns: CampaignData[]) => setSeenCampaigns(current => {
+    const updated = new Map(current);
+    campaigns.forEach(campaign => updated.set(campaign.id, campaign));
+    return updated;
+  });
+  const serverRows = isServerPaged ? paginatedData : undefined;
+  useEffect(() => {
+    if (serverRows) rememberCampaigns(serverRows);
+  }, [serverRows]);
 
-  const totalPages = Math.ceil(filteredAndSortedData.length / itemsPerPage);
+  // Selection survives paging and searching; ids of campaigns no longer in `data` are ignored
+  const selectedIds = controlledSelectedIds ?? internalSelectedIds;
+  const setSelectedIds = (ids: string[]) => {
+    if (onSelectionChange) {
+      onSelectionChange(ids);
+    } else {
+      setInternalSelectedIds(ids);
+    }
+  };
+  const selectedCampaigns = useMemo(() => {
+    if (isServerPaged) {
+      return selectedIds.map(id => seenCampaigns.get(id)).filter(campaign => campaign !== undefined);
+    }
+    const ids = new Set(selectedIds);
+    return data.filter(campaign => ids.has(campaign.id));
+  }, [isServerPaged, data, selectedIds, seenCampaigns]);
+  const isSelected = (campaign: CampaignData) => selectedIds.includes(campaign.id);
+  const pageSelectedCount = paginatedData.filter(isSelected).length;
+  const isPageSelected = paginatedData.length > 0 && pageSelectedCount === paginatedData.length;
+  const areAllMatchingSelected = isServerPaged
+    ? isPageSelected && selectedCampaigns.length >= totalRows
+    : matchingData.length > 0 && matchingData.every(isSelected);
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(value);
+  const toggleRow = (campaign: CampaignData) => {
+    setSelectedIds(isSelected(campaign)
+      ? selectedIds.filter(id => id !== campaign.id)
+      : [...selectedIds, campaign.id]);
   };
 
-  const formatPercentage = (value: number) => {
-    return `${value.toFixed(2)}%`;
+  const togglePage = () => {
+    const pageIds = paginatedData.map(campaign => campaign.id);
+    setSelectedIds(isPageSelected
+      ? selectedIds.filter(id => !pageIds.includes(id))
+      : [...new Set([...selectedIds, ...pageIds])]);
   };
 
-  const getStatusBadge = (status: CampaignData['status']) => {
-    const variants = {
-      active: "bg-success-light text-success border-success/20",
-      paused: "bg-warning-light text-warning border-warning/20",
-      completed: "bg-info-light text-info border-info/20"
-    };
-    
-    return (
-      <Badge 
-        variant="secondary" 
-        className={cn("border", variants[status])}
-      >
-        {status.charAt(0).toUpperCase() + status.slice(1)}
-      </Badge>
-    );
+  const selectAllMatching = async () => {
+    const matching = server ? await server.loadMatching() : matchingData;
+    if (server) rememberCampaigns(matching);
+    setSelectedIds([...new Set([...selectedIds, ...matching.map(campaign => campaign.id)])]);
   };
 
-  const handleExportCSV = () => {
-    ExportService.exportToCSV(filteredAndSortedData, 'campaign-data.csv');
-    onExport?.();
+  const clientOptions = useMemo(
+    () => [...new Set((isServerPaged ? [...seenCampaigns.values()] : data).map(campaign => campaign.client))].sort(),
+    [isServerPaged, data, seenCampaigns]
+  );
+
+  const filterOptions: Partial<Record<CampaignColumnId, Array<{ value: string; label: string }>>> = {
+    client: (clients ?? clientOptions).map(client => ({ value: client, label: client })),
+    status: STATUS_OPTIONS
+  };
+
+  const openExport = (scope?: CsvScope) => {
+    setExportScope(scope);
+    setIsExportOpen(true);
   };
 
   return (
@@ -151,196 +554,518 @@ export function DataTable({ data, title = "Campaign Performance", pageSize = 10,
               <Input
                 placeholder="Search campaigns..."
                 value={search}
-                onChange={(e) => setSearch(e.target.value)}
+                onChange={(e) => updateTableState({ search: e.target.value, page: 1 }, { replace: true })}
                 className="pl-9 w-full sm:w-64"
               />
             </div>
-            <Select value={statusFilter} onValueChange={setStatusFilter}>
-              <SelectTrigger className="w-full sm:w-32">
-                <Filter className="h-4 w-4 mr-2" />
+            <Select
+              value={groupBy}
+              onValueChange={(value) => updateTableState({ groupBy: value as CampaignGroupBy, page: 1 })}
+            >
+              <SelectTrigger className="w-full sm:w-44 gap-2" aria-label="Group rows by">
+                <Layers className="h-4 w-4 shrink-0 text-muted-foreground" />
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Status</SelectItem>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="paused">Paused</SelectItem>
-                <SelectItem value="completed">Completed</SelectItem>
+                {CAMPAIGN_GROUP_BYS.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {option === 'none' ? CAMPAIGN_GROUP_BY_LABELS[option] : `By ${CAMPAIGN_GROUP_BY_LABELS[option].toLowerCase()}`}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
-            <Button variant="outline" onClick={handleExportCSV} className="gap-2">
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" className="gap-2">
+                  <Columns3 className="h-4 w-4" />
+                  Columns
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {layout.order.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column}
+                    checked={showColumn(column)}
+                    onCheckedChange={() => toggleColumn(column)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {getCampaignTableColumn(column).label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onSelect={resetLayout} className="gap-2">
+                  <RotateCcw className="h-4 w-4" />
+                  Reset columns
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Button variant="outline" onClick={() => openExport()} className="gap-2">
               <Download className="h-4 w-4" />
               Export CSV
             </Button>
+            {onCreateCampaign && (
+              <Button onClick={onCreateCampaign} className="gap-2">
+                <Plus className="h-4 w-4" />
+                New Campaign
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
       <CardContent>
-        <div className="overflow-x-auto border rounded-lg">
-          <Table>
-            <TableHeader>
-              <TableRow className="bg-muted/50">
-                <TableHead 
-                  className="cursor-pointer hover:bg-muted transition-colors min-w-[200px]"
-                  onClick={() => handleSort('name')}
+        {activeFilters.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4">
+            {activeFilters.map(({ column, filter }) => (
+              <Badge key={column.id} variant="secondary" className="gap-1 pr-1 font-normal">
+                <span className="font-medium">{column.label}:</span>
+                {describeColumnFilter(column, filter)}
+                <button
+                  type="button"
+                  className="rounded-sm p-0.5 hover:bg-muted-foreground/20"
+                  onClick={() => updateColumnFilter(column.id)}
+                  aria-label={`Clear ${column.label} filter`}
                 >
-                  <div className="flex items-center space-x-2">
-                    <span className="font-semibold">Campaign</span>
-                    {getSortIcon('name')}
-                  </div>
-                </TableHead>
-                <TableHead 
-                  className="cursor-pointer hover:bg-muted transition-colors hidden sm:table-cell min-w-[120px]"
-                  onClick={() => handleSort('client')}
-                >
-                  <div className="flex items-center space-x-2">
-                    <span className="font-semibold">Client</span>
-                    {getSortIcon('client')}
-                  </div>
-                </TableHead>
-                <TableHead 
-                  className="cursor-pointer hover:bg-muted transition-colors text-right min-w-[100px]"
-                  onClick={() => handleSort('budget')}
-                >
-                  <div className="flex items-center justify-end space-x-2">
-                    <span className="font-semibold">Budget</span>
-                    {getSortIcon('budget')}
-                  </div>
-                </TableHead>
-                <TableHead 
-                  className="cursor-pointer hover:bg-muted transition-colors text-right hidden md:table-cell min-w-[100px]"
-                  onClick={() => handleSort('spent')}
-                >
-                  <div className="flex items-center justify-end space-x-2">
-                    <span className="font-semibold">Spent</span>
-                    {getSortIcon('spent')}
-                  </div>
-                </TableHead>
-                <TableHead 
-                  className="cursor-pointer hover:bg-muted transition-colors text-right hidden lg:table-cell min-w-[100px]"
-                  onClick={() => handleSort('conversions')}
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0"
+              onClick={() => updateTableState({ columnFilters: {}, page: 1 })}
+            >
+              Clear all filters
+            </Button>
+          </div>
+        )}
+        {isSelectable && selectedCampaigns.length > 0 && (
+          <BulkActionBar
+            selectedCount={selectedCampaigns.length}
+            onAction={(action) => onBulkAction(selectedCampaigns, action)}
+            onExport={() => openExport('selected')}
+            onClearSelection={() => setSelectedIds([])}
+            clients={clients ?? clientOptions}
+          />
+        )}
+        {isSelectable && isPageSelected && totalRows > paginatedData.length && (
+          <div className="text-sm text-center text-muted-foreground mb-4">
+            {areAllMatchingSelected ? (
+              <>
+                All {totalRows} matching campaigns are selected.{' '}
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedIds([])}>
+                  Clear selection
+                </Button>
+              </>
+            ) : (
+              <>
+                All {paginatedData.length} campaigns on this page are selected.{' '}
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={selectAllMatching}
                 >
-                  <div className="flex items-center justify-end space-x-2">
-                    <span className="font-semibold">Conversions</span>
-                    {getSortIcon('conversions')}
-                  </div>
-                </TableHead>
-                <TableHead 
-                  className="cursor-pointer hover:bg-muted transition-colors text-right hidden xl:table-cell min-w-[80px]"
-                  onClick={() => handleSort('ctr')}
+                  Select all {totalRows} matching campaigns
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+        {/* The outer box scrolls both ways so the header and pinned columns stay in view */}
+        <div
+          ref={scrollRef}
+          className={cn("overflow-auto border rounded-lg [&>div]:overflow-visible", isScrolling && "max-h-[70vh]")}
+        >
+          <Table className="table-fixed" style={{ width: tableWidth, minWidth: '100%' }}>
+            <TableHeader className="sticky top-0 z-20">
+              <TableRow className="bg-muted">
+                {isSelectable && (
+                  <TableHead className="sticky left-0 z-10 bg-muted" style={{ width: SELECTION_COLUMN_WIDTH }}>
+                    <Checkbox
+                      checked={isPageSelected ? true : pageSelectedCount > 0 ? 'indeterminate' : false}
+                      onCheckedChange={togglePage}
+                      aria-label="Select campaigns on this page"
+                    />
+                  </TableHead>
+                )}
+                <TableHead
+                  className="sticky z-10 bg-muted border-r cursor-pointer hover:bg-muted transition-colors"
+                  style={{ left: nameLeft, width: columnWidth(layout, 'name') }}
+                  onClick={(e) => handleSort(PINNED_COLUMN.sortKey, e.shiftKey)}
+                  title={SORT_HINT}
                 >
-                  <div className="flex items-center justify-end space-x-2">
-                    <span className="font-semibold">CTR</span>
-                    {getSortIcon('ctr')}
+                  <div className="flex items-center space-x-2">
+                    <span className="font-semibold">{PINNED_COLUMN.label}</span>
+                    {getSortIcon(PINNED_COLUMN.sortKey)}
                   </div>
+                  {renderResizeHandle('name')}
                 </TableHead>
-                <TableHead className="min-w-[100px]">
-                  <span className="font-semibold">Status</span>
-                </TableHead>
+                {visibleColumns.map(column => (
+                  <TableHead
+                    key={column.id}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      e.dataTransfer.setData('text/plain', column.id);
+                      setDraggedColumn(column.id);
+                    }}
+                    onDragOver={(e) => {
+                      if (!draggedColumn || draggedColumn === column.id) return;
+                      e.preventDefault();
+                      setDropTarget(column.id);
+                    }}
+                    onDragLeave={() => setDropTarget(current => (current === column.id ? null : current))}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (draggedColumn) updateLayout(moveColumn(layout, draggedColumn, column.id));
+                      setDraggedColumn(null);
+                      setDropTarget(null);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedColumn(null);
+                      setDropTarget(null);
+                    }}
+                    className={cn(
+                      "group relative cursor-pointer select-none hover:bg-muted/80 transition-colors",
+                      column.align === 'right' && "text-right",
+                      draggedColumn === column.id && "opacity-50",
+                      dropTarget === column.id && "bg-primary/10"
+                    )}
+                    style={{ width: columnWidth(layout, column.id) }}
+                    onClick={(e) => handleSort(column.sortKey, e.shiftKey)}
+                    title={SORT_HINT}
+                  >
+                    <div className={cn("flex items-center gap-1", column.align === 'right' && "justify-end")}>
+                      <GripVertical
+                        className="h-3 w-3 shrink-0 cursor-grab text-muted-foreground opacity-0 group-hover:opacity-100"
+                        aria-hidden
+                      />
+                      <span className="font-semibold truncate">{column.label}</span>
+                      {getSortIcon(column.sortKey)}
+                      <ColumnFilterPopover
+                        column={column}
+                        filter={columnFilters[column.id]}
+                        onChange={(filter) => updateColumnFilter(column.id, filter)}
+                        options={filterOptions[column.id]}
+                      />
+                    </div>
+                    {renderResizeHandle(column.id)}
+                  </TableHead>
+                ))}
+                {hasRowActions && (
+                  <TableHead style={{ width: ACTIONS_COLUMN_WIDTH }}>
+                    <span className="sr-only">Actions</span>
+                  </TableHead>
+                )}
               </TableRow>
             </TableHeader>
             <TableBody>
-              {paginatedData.map((campaign) => (
-                <TableRow key={campaign.id} className="hover:bg-muted/30 transition-colors">
-                  <TableCell className="font-medium">
-                    <div className="min-w-0">
-                      <div className="font-semibold text-sm truncate">{campaign.name}</div>
-                      <div className="text-xs text-muted-foreground truncate sm:hidden">
-                        {campaign.client}
-                      </div>
-                      <div className="text-xs text-muted-foreground font-mono">{campaign.id}</div>
-                    </div>
+              {tableItems.length === 0 && (
+                <TableRow>
+                  <TableCell
+                    colSpan={visibleColumns.length + 1 + (isSelectable ? 1 : 0) + (hasRowActions ? 1 : 0)}
+                    className="h-24 text-center text-muted-foreground"
+                  >
+                    {server && !server.page ? 'Loading campaigns…' : 'No campaigns match your search.'}
                   </TableCell>
-                  <TableCell className="hidden sm:table-cell">{campaign.client}</TableCell>
-                  <TableCell className="text-right font-mono">
-                    <div className="font-semibold">{formatCurrency(campaign.budget)}</div>
-                    <div className="text-xs text-muted-foreground md:hidden">
-                      Spent: {formatCurrency(campaign.spent)}
-                    </div>
+                </TableRow>
+              )}
+              {virtualRows.spaceBefore > 0 && <tr aria-hidden style={{ height: virtualRows.spaceBefore }} />}
+              {renderedItems.map((item) => item.type === 'loading' ? (
+                <TableRow key={`loading-${item.index}`} style={{ height: VIRTUAL_ROW_HEIGHT }} aria-busy>
+                  {isSelectable && <TableCell className="sticky left-0 z-10 bg-card" />}
+                  <TableCell className="sticky z-10 bg-card border-r" style={{ left: nameLeft }}>
+                    <Skeleton className="h-4 w-3/4" />
                   </TableCell>
-                  <TableCell className="text-right font-mono hidden md:table-cell">
-                    <div>
-                      <div className="font-semibold">{formatCurrency(campaign.spent)}</div>
-                      <div className="text-xs text-muted-foreground">
-                        {formatPercentage((campaign.spent / campaign.budget) * 100)} of budget
-                      </div>
-                    </div>
+                  {visibleColumns.map(column => (
+                    <TableCell key={column.id}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                  {hasRowActions && <TableCell />}
+                </TableRow>
+              ) : item.type === 'group' ? (
+                <TableRow
+                  key={`group-${item.group.key}`}
+                  style={isScrolling ? { height: VIRTUAL_ROW_HEIGHT } : undefined}
+                  className="bg-muted hover:bg-muted"
+                >
+                  {isSelectable && <TableCell className="sticky left-0 z-10 bg-muted" />}
+                  <TableCell className="sticky z-10 bg-muted border-r" style={{ left: nameLeft }}>
+                    <button
+                      type="button"
+                      className="flex w-full min-w-0 items-center gap-2 text-left"
+                      onClick={() => toggleGroup(item.group.key)}
+                      aria-expanded={!item.collapsed}
+                    >
+                      <ChevronRight className={cn("h-4 w-4 shrink-0 transition-transform", !item.collapsed && "rotate-90")} />
+                      <span className="font-semibold text-sm truncate">{item.group.label}</span>
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {item.group.totals.campaignCount.toLocaleString()}
+                      </span>
+                    </button>
                   </TableCell>
-                  <TableCell className="text-right font-mono hidden lg:table-cell">
-                    <div className="font-semibold">{campaign.conversions.toLocaleString()}</div>
-                    <div className="text-xs text-muted-foreground xl:hidden">
-                      CTR: {formatPercentage(campaign.ctr)}
+                  {visibleColumns.map(column => (
+                    <TableCell
+                      key={column.id}
+                      className={cn("truncate", column.align === 'right' && "text-right font-mono")}
+                    >
+                      {TOTAL_RENDERERS[column.id]?.(item.group.totals)}
+                    </TableCell>
+                  ))}
+                  {hasRowActions && <TableCell />}
+                </TableRow>
+              ) : (
+                <TableRow
+                  key={item.campaign.id}
+                  style={isScrolling ? { height: VIRTUAL_ROW_HEIGHT } : undefined}
+                  className={cn("hover:bg-muted/30 transition-colors", onRowClick && "cursor-pointer")}
+                  onClick={onRowClick ? () => onRowClick(item.campaign) : undefined}
+                  onKeyDown={onRowClick ? (e) => {
+                    if (e.key === 'Enter') onRowClick(item.campaign);
+                  } : undefined}
+                  tabIndex={onRowClick ? 0 : undefined}
+                  data-state={isSelectable && isSelected(item.campaign) ? "selected" : undefined}
+                >
+                  {isSelectable && (
+                    <TableCell
+                      className="sticky left-0 z-10 bg-card"
+                      onClick={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => e.stopPropagation()}
+                    >
+                      <Checkbox
+                        checked={isSelected(item.campaign)}
+                        onCheckedChange={() => toggleRow(item.campaign)}
+                        aria-label={`Select ${item.campaign.name}`}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="sticky z-10 bg-card border-r font-medium" style={{ left: nameLeft }}>
+                    <div className="min-w-0">
+                      <div className="font-semibold text-sm truncate">{item.campaign.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono truncate">{item.campaign.id}</div>
                     </div>
                   </TableCell>
-                  <TableCell className="text-right font-mono hidden xl:table-cell font-semibold">
-                    {formatPercentage(campaign.ctr)}
-                  </TableCell>
-                  <TableCell>
-                    {getStatusBadge(campaign.status)}
-                  </TableCell>
+                  {visibleColumns.map(column => (
+                    <TableCell
+                      key={column.id}
+                      className={cn("truncate", column.align === 'right' && "text-right font-mono")}
+                    >
+                      {onCellEdit && isInlineEditable(column.id) ? (
+                        <InlineCellEditor
+                          campaign={item.campaign}
+                          field={column.id}
+                          label={column.label}
+                          align={column.align}
+                          disabled={updatingId === item.campaign.id}
+                          onSave={(changes) => onCellEdit(item.campaign, changes)}
+                        >
+                          {CELL_RENDERERS[column.id](item.campaign, asOf)}
+                        </InlineCellEditor>
+                      ) : CELL_RENDERERS[column.id](item.campaign, asOf)}
+                    </TableCell>
+                  ))}
+                  {hasRowActions && (
+                    <TableCell
+                      onClick={(e) => e.stopPropagation()}
+                      onKeyDown={(e) => e.stopPropagation()}
+                    >
+                      <CampaignRowActions
+                        campaign={item.campaign}
+                        disabled={updatingId === item.campaign.id}
+                        onEdit={onEditCampaign}
+                        onStatusChange={onStatusChange}
+                      />
+                    </TableCell>
+                  )}
                 </TableRow>
               ))}
+              {virtualRows.spaceAfter > 0 && <tr aria-hidden style={{ height: virtualRows.spaceAfter }} />}
             </TableBody>
+            {totalRows > 0 && (
+              <TableFooter className={cn("bg-muted", isScrolling && "sticky bottom-0 z-20")}>
+                <TableRow className="hover:bg-muted">
+                  {isSelectable && <TableCell className="sticky left-0 z-10 bg-muted" />}
+                  <TableCell className="sticky z-10 bg-muted border-r" style={{ left: nameLeft }}>
+                    <span className="font-semibold text-sm">Total</span>
+                    <span className="ml-2 text-xs text-muted-foreground">
+                      {currentPage.totals.campaignCount.toLocaleString()} campaigns
+                    </span>
+                  </TableCell>
+                  {visibleColumns.map(column => (
+                    <TableCell
+                      key={column.id}
+                      className={cn("truncate", column.align === 'right' && "text-right font-mono")}
+                    >
+                      {TOTAL_RENDERERS[column.id]?.(currentPage.totals)}
+                    </TableCell>
+                  ))}
+                  {hasRowActions && <TableCell />}
+                </TableRow>
+              </TableFooter>
+            )}
           </Table>
         </div>
         
         {/* Pagination */}
         <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mt-4">
-          <div className="text-sm text-muted-foreground">
-            Showing {Math.min((currentPage - 1) * itemsPerPage + 1, filteredAndSortedData.length)} to{' '}
-            {Math.min(currentPage * itemsPerPage, filteredAndSortedData.length)} of{' '}
-            {filteredAndSortedData.length} results
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            {isScrolling
+              ? `${totalRows} results`
+              : `Showing ${totalRows === 0 ? 0 : (currentPage.page - 1) * itemsPerPage + 1} to ${Math.min(currentPage.page * itemsPerPage, totalRows)} of ${totalRows} results`}
+            {server?.isFetching && <Loader2 className="h-4 w-4 animate-spin" aria-label="Loading" />}
           </div>
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-              disabled={currentPage === 1}
-            >
-              <ChevronLeft className="h-4 w-4" />
-              Previous
-            </Button>
-            <div className="flex items-center space-x-1">
-              {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
-                const pageNum = i + 1;
-                return (
+          <div className="flex flex-wrap items-center justify-center gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Rows per page</span>
+              <Select
+                value={String(isScrolling ? 'all' : itemsPerPage)}
+                onValueChange={(value) => updateTableState({ pageSize: value === 'all' ? 'all' : Number(value), page: 1 })}
+              >
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZE_OPTIONS.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size}</SelectItem>
+                  ))}
+                  {canScroll && <SelectItem value="all">All</SelectItem>}
+                </SelectContent>
+              </Select>
+            </div>
+            {!isScrolling && (
+              <>
+                <nav aria-label="Pagination" className="flex items-center space-x-1">
                   <Button
-                    key={pageNum}
-                    variant={pageNum === currentPage ? "default" : "outline"}
+                    variant="outline"
                     size="sm"
-                    onClick={() => setCurrentPage(pageNum)}
-                    className="w-8 h-8 p-0"
+                    onClick={() => goToPage(currentPage.page - 1)}
+                    disabled={currentPage.page <= 1}
                   >
-                    {pageNum}
+                    <ChevronLeft className="h-4 w-4" />
+                    Previous
                   </Button>
-                );
-              })}
-              {totalPages > 5 && (
-                <>
-                  <span className="text-muted-foreground">...</span>
+                  {pageNumbers(currentPage.page, totalPages).map((pageNum, index) =>
+                    pageNum === 'ellipsis' ? (
+                      <span key={`ellipsis-${index}`} className="px-1 text-muted-foreground">...</span>
+                    ) : (
+                      <Button
+                        key={pageNum}
+                        variant={pageNum === currentPage.page ? "default" : "outline"}
+                        size="sm"
+                        onClick={() => goToPage(pageNum)}
+                        className="min-w-8 h-8 px-2"
+                        aria-current={pageNum === currentPage.page ? 'page' : undefined}
+                      >
+                        {pageNum}
+                      </Button>
+                    )
+                  )}
                   <Button
-                    variant={totalPages === currentPage ? "default" : "outline"}
+                    variant="outline"
                     size="sm"
-                    onClick={() => setCurrentPage(totalPages)}
-                    className="w-8 h-8 p-0"
+                    onClick={() => goToPage(currentPage.page + 1)}
+                    disabled={currentPage.page >= totalPages}
                   >
-                    {totalPages}
+                    Next
+                    <ChevronRight className="h-4 w-4" />
                   </Button>
-                </>
-              )}
-            </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-              disabled={currentPage === totalPages}
-            >
-              Next
-              <ChevronRight className="h-4 w-4" />
-            </Button>
+                </nav>
+                {totalPages > 1 && (
+                  <form
+                    className="flex items-center gap-2 text-sm"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      const target = Number(jumpPage);
+                      if (jumpPage.trim() !== '' && Number.isFinite(target)) goToPage(target);
+                      setJumpPage('');
+                    }}
+                  >
+                    <Label htmlFor={jumpInputId} className="font-normal text-muted-foreground">Go to page</Label>
+                    <Input
+                      id={jumpInputId}
+                      type="number"
+                      min={1}
+                      max={totalPages}
+                      value={jumpPage}
+                      onChange={(e) => setJumpPage(e.target.value)}
+                      placeholder={String(currentPage.page)}
+                      className="h-8 w-16"
+                    />
+                  </form>
+                )}
+              </>
+            )}
           </div>
         </div>
       </CardContent>
+
+      <CsvExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        pageRows={paginatedData}
+        filteredRows={matchingData}
+        loadFilteredRows={server?.loadMatching}
+        filteredCount={totalRows}
+        loadAllRows={loadAllCampaigns}
+        selectedRows={selectedCampaigns}
+        initialScope={exportScope}
+        asOf={asOf}
+        onExported={onExport}
+      />
     </Card>
   );
-}
\ No newline at end of file
+}
+
+interface CampaignRowActionsProps {
+  campaign: CampaignData;
+  disabled?: boolean;
+  onEdit?: (campaign: CampaignData) => void;
+  onStatusChange?: (campaign: CampaignData, status: CampaignData['status']) => void;
+}
+
+function CampaignRowActions({ campaign, disabled, onEdit, onStatusChange }: CampaignRowActionsProps) {
+  const toggledStatus = pauseToggleStatus(campaign);
+  const isArchived = campaign.status === 'archived';
+
+  return (
+    <div className="flex items-center justify-end gap-1">
+      {onStatusChange && toggledStatus && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          title={toggledStatus === 'paused' ? "Pause campaign" : "Resume campaign"}
+          disabled={disabled}
+          onClick={() => onStatusChange(campaign, toggledStatus)}
+        >
+          {toggledStatus === 'paused' ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="More actions" disabled={disabled}>
+            <MoreHorizontal className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {onEdit && (
+            <DropdownMenuItem onSelect={() => onEdit(campaign)} className="gap-2">
+              <Pencil className="h-4 w-4" />
+              Edit
+            </DropdownMenuItem>
+          )}
+          {onStatusChange && (
+            <DropdownMenuItem onSelect={() => onStatusChange(campaign, archiveToggleStatus(campaign))} className="gap-2">
+              {isArchived ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+              {isArchived ? "Restore" : "Archive"}
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
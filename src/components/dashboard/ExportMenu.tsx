@@ -0,0 +1,113 @@
+import { Fragment, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  availableExportFormats,
+  type ExportFormat,
+  type ExportFormatAdapter,
+  type ExportOptions,
+  type ExportSource
+} from "@/services/exportPipeline";
+import { IMAGE_THEME_LABELS, PNG_SCALES, type ImageTheme } from "@/services/chartImage";
+import { useExport } from "@/hooks/use-export";
+
+interface ExportMenuProps {
+  source: ExportSource;
+  /** Limits the menu to these formats; defaults to every format the source supports */
+  formats?: ExportFormat[];
+  /** Button text; the button shows only its icon when omitted */
+  label?: string;
+  className?: string;
+  onExported?: (format: ExportFormat) => void;
+}
+
+const KIND_ORDER: ExportFormatAdapter['kind'][] = ['data', 'image', 'document'];
+
+export function ExportMenu({ source, formats, label, className, onExported }: ExportMenuProps) {
+  const { exportAs } = useExport();
+  const [isExporting, setIsExporting] = useState(false);
+  const [theme, setTheme] = useState<ImageTheme>('current');
+  const adapters = availableExportFormats(source, formats);
+  const groups = KIND_ORDER
+    .map(kind => adapters.filter(adapter => adapter.kind === kind))
+    .filter(group => group.length > 0);
+
+  const handleExport = async (format: ExportFormat, options?: ExportOptions) => {
+    setIsExporting(true);
+    const file = await exportAs(source, format, { theme, ...options });
+    setIsExporting(false);
+    if (file) onExported?.(format);
+  };
+
+  if (adapters.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isExporting}
+          className={cn(label ? "gap-2" : "h-8 w-8 p-0", className)}
+          title={label ? undefined : `Export ${source.name}`}
+        >
+          <Download className="h-4 w-4" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        {groups.map(group => (
+          <Fragment key={group[0].kind}>
+            <DropdownMenuSeparator />
+            {group.map(adapter => adapter.format === 'png' ? (
+              // PNGs are rasterised, so the pixel scale is picked per export
+              <DropdownMenuSub key={adapter.format}>
+                <DropdownMenuSubTrigger>{adapter.label}</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {PNG_SCALES.map(scale => (
+                    <DropdownMenuItem key={scale} onSelect={() => handleExport(adapter.format, { scale })}>
+                      {scale}× resolution
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            ) : (
+              <DropdownMenuItem key={adapter.format} onSelect={() => handleExport(adapter.format)}>
+                {adapter.label}
+              </DropdownMenuItem>
+            ))}
+            {group[0].kind === 'image' && (
+              <DropdownMenuRadioGroup value={theme} onValueChange={(value) => setTheme(value as ImageTheme)}>
+                {(Object.keys(IMAGE_THEME_LABELS) as ImageTheme[]).map(option => (
+                  <DropdownMenuRadioItem
+                    key={option}
+                    value={option}
+                    onSelect={(e) => e.preventDefault()}
+                    className="text-xs text-muted-foreground"
+                  >
+                    {IMAGE_THEME_LABELS[option]}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            )}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useMemo, useState, type ReactNode } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,94 +11,111 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, Filter, X, Download } from "lucide-react";
-import { ExportService } from "@/services/exportService";
+import { Slider } from "@/components/ui/slider";
+import { Calendar, CalendarClock, Filter, X, Download } from "lucide-react";
+import {
+  createDefaultFilters,
+  COMPARISON_MODE_LABELS,
+  DEFAULT_BUDGET_RANGE,
+  isBudgetFiltered,
+  resolveComparisonRange,
+  type ComparisonMode,
+  type DashboardFilters,
+  type FilterFacets
+} from "@/services/filters";
 
 interface FilterPanelProps {
+  filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
   onExportPDF?: () => void;
+  onExportXLSX?: () => void;
   onExportMetricsCSV?: () => void;
-  availableClients?: string[];
-  availableStatuses?: string[];
-  initialDateRange?: { from: string; to: string };
+  onScheduleReports?: () => void;
+  /** Options, counts and budget bounds derived from the loaded campaigns */
+  facets?: FilterFacets;
+  /** Rendered above the filters, e.g. the saved views list */
+  savedViews?: ReactNode;
 }
 
-export interface FilterState {
-  dateRange: {
-    from: string;
-    to: string;
-  };
-  clients: string[];
-  status: string[];
-  budgetRange: {
-    min: number;
-    max: number;
-  };
-}
+export type FilterState = DashboardFilters;
+
+const EMPTY_FACETS: FilterFacets = { clients: [], statuses: [], budgetBounds: { min: 0, max: 0 } };
+
+const formatStatus = (status: string) => status.charAt(0).toUpperCase() + status.slice(1);
+
+const describeActiveFilters = (currentFilters: FilterState) => {
+  const active: string[] = [];
+  
+  if (currentFilters.comparison.mode !== 'previous') {
+    active.push(`Compare: ${COMPARISON_MODE_LABELS[currentFilters.comparison.mode]}`);
+  }
+  
+  if (currentFilters.clients.length > 0) {
+    active.push(`Clients: ${currentFilters.clients.join(', ')}`);
+  }
+  
+  if (currentFilters.status.length > 0) {
+    active.push(`Status: ${currentFilters.status.join(', ')}`);
+  }
+  
+  if (isBudgetFiltered(currentFilters)) {
+    const { min, max } = currentFilters.budgetRange;
+    active.push(max < DEFAULT_BUDGET_RANGE.max
+      ? `Budget: $${min.toLocaleString()} - $${max.toLocaleString()}`
+      : `Budget: $${min.toLocaleString()}+`);
+  }
+  
+  return active;
+};
 
 export function FilterPanel({ 
+  filters,
   onFiltersChange, 
   onExportPDF, 
+  onExportXLSX,
   onExportMetricsCSV,
-  availableClients = ['TechCorp', 'Fashion Plus', 'FoodieApp', 'TravelMax', 'HealthyLife', 'AutoDeals'],
-  availableStatuses = ['active', 'paused', 'completed'],
-  initialDateRange
+  onScheduleReports,
+  facets = EMPTY_FACETS,
+  savedViews
 }: FilterPanelProps) {
-  const defaultDateRange = initialDateRange || {
-    from: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-    to: new Date().toISOString().split('T')[0]
-  };
+  const activeFilters = useMemo(() => describeActiveFilters(filters), [filters]);
+  // Slider position while dragging; the filter itself only changes on release
+  const [budgetDraft, setBudgetDraft] = useState<number[] | null>(null);
 
-  const [filters, setFilters] = useState<FilterState>({
-    dateRange: defaultDateRange,
-    clients: [],
-    status: [],
-    budgetRange: {
-      min: 0,
-      max: 100000
-    }
-  });
-
-  const [activeFilters, setActiveFilters] = useState<string[]>([]);
+  const { budgetBounds } = facets;
+  const clampToBounds = (value: number) => Math.min(Math.max(value, budgetBounds.min), budgetBounds.max);
+  const budgetSliderValue = budgetDraft ?? [
+    clampToBounds(filters.budgetRange.min),
+    clampToBounds(filters.budgetRange.max)
+  ];
 
   const updateFilters = (newFilters: Partial<FilterState>) => {
-    const updated = { ...filters, ...newFilters };
-    setFilters(updated);
-    onFiltersChange(updated);
-    updateActiveFilters(updated);
+    onFiltersChange({ ...filters, ...newFilters });
   };
 
-  const updateActiveFilters = (currentFilters: FilterState) => {
-    const active: string[] = [];
-    
-    if (currentFilters.clients.length > 0) {
-      active.push(`Clients: ${currentFilters.clients.join(', ')}`);
-    }
-    
-    if (currentFilters.status.length > 0) {
-      active.push(`Status: ${currentFilters.status.join(', ')}`);
-    }
-    
-    if (currentFilters.budgetRange.min > 0 || currentFilters.budgetRange.max < 100000) {
-      active.push(`Budget: $${currentFilters.budgetRange.min.toLocaleString()} - $${currentFilters.budgetRange.max.toLocaleString()}`);
-    }
-    
-    setActiveFilters(active);
+  const clearFilters = () => {
+    onFiltersChange(createDefaultFilters());
   };
 
-  const clearFilters = () => {
-    const resetFilters = {
-      dateRange: defaultDateRange,
-      clients: [],
-      status: [],
+  const changeComparisonMode = (mode: ComparisonMode) => {
+    updateFilters({
+      comparison: mode === 'custom'
+        // Start from the range the dashboard was already comparing against
+        ? { mode, range: resolveComparisonRange(filters) }
+        : { mode }
+    });
+  };
+
+  // Dragging a thumb to the end of the slider removes that bound, so the filter keeps
+  // matching campaigns above or below the current data's range as the data changes
+  const commitBudgetRange = ([min, max]: number[]) => {
+    setBudgetDraft(null);
+    updateFilters({
       budgetRange: {
-        min: 0,
-        max: 100000
+        min: min <= budgetBounds.min ? DEFAULT_BUDGET_RANGE.min : min,
+        max: max >= budgetBounds.max ? DEFAULT_BUDGET_RANGE.max : max
       }
-    };
-    setFilters(resetFilters);
-    setActiveFilters([]);
-    onFiltersChange(resetFilters);
+    });
   };
 
   const addClientFilter = (client: string) => {
@@ -143,6 +160,12 @@ export function FilterPanel({
         )}
       </CardHeader>
       <CardContent className="space-y-6">
+        {savedViews && (
+          <div className="pb-4 border-b">
+            {savedViews}
+          </div>
+        )}
+
         {/* Date Range */}
         <div className="space-y-2">
           <Label className="text-sm font-medium flex items-center gap-2">
@@ -177,6 +200,49 @@ export function FilterPanel({
           </div>
         </div>
 
+        {/* Comparison */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Compare To</Label>
+          <Select value={filters.comparison.mode} onValueChange={(value) => changeComparisonMode(value as ComparisonMode)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(COMPARISON_MODE_LABELS) as ComparisonMode[]).map(mode => (
+                <SelectItem key={mode} value={mode}>{COMPARISON_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filters.comparison.mode === 'custom' && filters.comparison.range && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <Label htmlFor="compare-from-date" className="text-xs text-muted-foreground">From</Label>
+                <Input
+                  id="compare-from-date"
+                  type="date"
+                  value={filters.comparison.range.from}
+                  onChange={(e) => updateFilters({
+                    comparison: { mode: 'custom', range: { ...filters.comparison.range, from: e.target.value } }
+                  })}
+                  className="text-sm"
+                />
+              </div>
+              <div>
+                <Label htmlFor="compare-to-date" className="text-xs text-muted-foreground">To</Label>
+                <Input
+                  id="compare-to-date"
+                  type="date"
+                  value={filters.comparison.range.to}
+                  onChange={(e) => updateFilters({
+                    comparison: { mode: 'custom', range: { ...filters.comparison.range, to: e.target.value } }
+                  })}
+                  className="text-sm"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Client Filter */}
         <div className="space-y-2">
           <Label className="text-sm font-medium">Clients</Label>
@@ -185,8 +251,10 @@ export function FilterPanel({
               <SelectValue placeholder="Add client filter" />
             </SelectTrigger>
             <SelectContent>
-              {availableClients.filter(c => !filters.clients.includes(c)).map(client => (
-                <SelectItem key={client} value={client}>{client}</SelectItem>
+              {facets.clients.filter(option => !filters.clients.includes(option.value)).map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.value} <span className="text-muted-foreground">({option.count})</span>
+                </SelectItem>
               ))}
             </SelectContent>
           </Select>
@@ -217,9 +285,9 @@ export function FilterPanel({
               <SelectValue placeholder="Add status filter" />
             </SelectTrigger>
             <SelectContent>
-              {availableStatuses.filter(s => !filters.status.includes(s)).map(status => (
-                <SelectItem key={status} value={status}>
-                  {status.charAt(0).toUpperCase() + status.slice(1)}
+              {facets.statuses.filter(option => !filters.status.includes(option.value)).map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {formatStatus(option.value)} <span className="text-muted-foreground">({option.count})</span>
                 </SelectItem>
               ))}
             </SelectContent>
@@ -228,7 +296,7 @@ export function FilterPanel({
             <div className="flex flex-wrap gap-1">
               {filters.status.map(status => (
                 <Badge key={status} variant="secondary" className="text-xs">
-                  {status.charAt(0).toUpperCase() + status.slice(1)}
+                  {formatStatus(status)}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -246,31 +314,20 @@ export function FilterPanel({
         {/* Budget Range */}
         <div className="space-y-2">
           <Label className="text-sm font-medium">Budget Range</Label>
-          <div className="grid grid-cols-2 gap-2">
-            <div>
-              <Label htmlFor="min-budget" className="text-xs text-muted-foreground">Min ($)</Label>
-              <Input
-                id="min-budget"
-                type="number"
-                value={filters.budgetRange.min}
-                onChange={(e) => updateFilters({
-                  budgetRange: { ...filters.budgetRange, min: Number(e.target.value) }
-                })}
-                className="text-sm"
-              />
-            </div>
-            <div>
-              <Label htmlFor="max-budget" className="text-xs text-muted-foreground">Max ($)</Label>
-              <Input
-                id="max-budget"
-                type="number"
-                value={filters.budgetRange.max}
-                onChange={(e) => updateFilters({
-                  budgetRange: { ...filters.budgetRange, max: Number(e.target.value) }
-                })}
-                className="text-sm"
-              />
-            </div>
+          <Slider
+            min={budgetBounds.min}
+            max={budgetBounds.max}
+            step={1000}
+            minStepsBetweenThumbs={1}
+            value={budgetSliderValue}
+            onValueChange={setBudgetDraft}
+            onValueCommit={commitBudgetRange}
+            disabled={budgetBounds.max <= budgetBounds.min}
+            className="py-2"
+          />
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>${budgetSliderValue[0].toLocaleString()}</span>
+            <span>${budgetSliderValue[1].toLocaleString()}</span>
           </div>
         </div>
 
@@ -289,7 +346,7 @@ export function FilterPanel({
         )}
 
         {/* Export Actions */}
-        {(onExportPDF || onExportMetricsCSV) && (
+        {(onExportPDF || onExportXLSX || onExportMetricsCSV || onScheduleReports) && (
           <div className="space-y-2 pt-4 border-t">
             <Label className="text-sm font-medium">Export Data</Label>
             <div className="grid grid-cols-1 gap-2">
@@ -299,12 +356,24 @@ export function FilterPanel({
                   Export Dashboard PDF
                 </Button>
               )}
+              {onExportXLSX && (
+                <Button variant="outline" size="sm" onClick={onExportXLSX} className="justify-start gap-2">
+                  <Download className="h-4 w-4" />
+                  Export Excel Workbook
+                </Button>
+              )}
               {onExportMetricsCSV && (
                 <Button variant="outline" size="sm" onClick={onExportMetricsCSV} className="justify-start gap-2">
                   <Download className="h-4 w-4" />
                   Export Metrics CSV
                 </Button>
               )}
+              {onScheduleReports && (
+                <Button variant="outline" size="sm" onClick={onScheduleReports} className="justify-start gap-2">
+                  <CalendarClock className="h-4 w-4" />
+                  Schedule Reports
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,163 @@
+import { useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { AlertTriangle, Pencil } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  CAMPAIGN_STATUS_LABELS,
+  campaignChangesError,
+  changedCampaignFields,
+  INLINE_EDIT_DEPENDENCIES,
+  type CampaignChanges,
+  type InlineEditableField,
+  type InlineEditDependency
+} from "@/services/campaignEditing";
+import { CAMPAIGN_STATUSES, type CampaignData } from "@/services/mockData";
+
+interface InlineCellEditorProps {
+  /** The campaign as currently shown, which real-time refreshes may replace while editing */
+  campaign: CampaignData;
+  field: InlineEditableField;
+  label: string;
+  align?: 'left' | 'right';
+  disabled?: boolean;
+  onSave: (changes: CampaignChanges) => void;
+  /** The cell's usual content */
+  children: ReactNode;
+}
+
+const FIELD_LABELS: Record<InlineEditDependency, string> = {
+  budget: 'budget',
+  spent: 'spend',
+  startDate: 'start date',
+  endDate: 'end date',
+  status: 'status'
+};
+
+const toChanges = (field: InlineEditableField, draft: string): CampaignChanges => {
+  if (field === 'budget') return { budget: draft.trim() === '' ? Number.NaN : Number(draft) };
+  if (field === 'status') return { status: draft as CampaignData['status'] };
+  return { [field]: draft };
+};
+
+export function InlineCellEditor({ campaign, field, label, align = 'left', disabled, onSave, children }: InlineCellEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  // The campaign as it was when editing started, to notice changes made underneath the editor
+  const [base, setBase] = useState(campaign);
+
+  const changes = toChanges(field, draft);
+  const error = open ? campaignChangesError(campaign, changes) : null;
+  const changedFields = open ? changedCampaignFields(base, campaign, INLINE_EDIT_DEPENDENCIES[field]) : [];
+  const isUnchanged = changes[field] === campaign[field];
+
+  const startFrom = (latest: CampaignData) => {
+    setBase(latest);
+    setDraft(String(latest[field]));
+  };
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) startFrom(campaign);
+    setOpen(isOpen);
+  };
+
+  return (
+    <div className={cn("group/cell flex items-center gap-1 min-w-0", align === 'right' && "justify-end")}>
+      <div className="min-w-0 truncate">{children}</div>
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 shrink-0 text-muted-foreground opacity-0 group-hover/cell:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+            aria-label={`Edit ${label.toLowerCase()} of ${campaign.name}`}
+            disabled={disabled}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => e.stopPropagation()}
+          >
+            <Pencil className="h-3.5 w-3.5" />
+          </Button>
+        </PopoverTrigger>
+        {/* Row clicks and Enter open the campaign; keep them from bubbling out of the editor */}
+        <PopoverContent
+          align={align === 'right' ? 'end' : 'start'}
+          className="w-64"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (error) return;
+              if (!isUnchanged) onSave(changes);
+              setOpen(false);
+            }}
+          >
+            <div className="text-sm font-medium truncate">
+              {label} · <span className="text-muted-foreground">{campaign.name}</span>
+            </div>
+
+            {field === 'status' ? (
+              <Select value={draft} onValueChange={setDraft}>
+                <SelectTrigger className="h-8" aria-label={label}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CAMPAIGN_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{CAMPAIGN_STATUS_LABELS[status]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={field === 'budget' ? 'number' : 'date'}
+                step="any"
+                min={field === 'budget' ? 0 : undefined}
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="h-8"
+                aria-label={label}
+                autoFocus
+              />
+            )}
+
+            {changedFields.length > 0 && (
+              <div className="flex gap-2 rounded-md border border-warning/30 bg-warning-light p-2 text-xs text-warning">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <div className="space-y-1">
+                  <p>
+                    This campaign&apos;s {changedFields.map(changed => FIELD_LABELS[changed]).join(', ')} changed
+                    while you were editing. Saving keeps your value.
+                  </p>
+                  <button type="button" className="font-medium underline" onClick={() => startFrom(campaign)}>
+                    Start over from the latest values
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {error && <p className="text-xs text-danger">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!!error}>
+                {changedFields.length > 0 ? 'Save anyway' : 'Save'}
+              </Button>
+            </div>
+          </form>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
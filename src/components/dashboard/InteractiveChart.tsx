@@ -1,13 +1,15 @@
+import { useMemo, useRef, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
 import { 
   LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell,
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend
 } from 'recharts';
 import { ChartDataPoint } from "@/services/mockData";
-import { Download } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { DERIVED_METRICS, isDerivedMetric } from "@/services/performanceMetrics";
+import type { ExportSource } from "@/services/exportPipeline";
+import type { ValueFormat } from "@/services/report";
+import { ExportMenu } from "@/components/dashboard/ExportMenu";
 
 type ChartType = 'line' | 'area' | 'bar' | 'pie';
 
@@ -18,9 +20,37 @@ interface InteractiveChartProps {
   dataKeys?: string[];
   colors?: string[];
   height?: number;
+  /** Y-axis tick format; line charts default to currency */
+  valueFormat?: ValueFormat;
+  /** Series to overlay as dashed lines in line/area views, aligned to `data` by position */
+  comparisonData?: ChartDataPoint[];
+  comparisonLabel?: string;
+  /** Series toggled off through the legend; the chart keeps its own selection when omitted */
+  hiddenSeries?: string[];
+  onHiddenSeriesChange?: (hiddenSeries: string[]) => void;
   onExport?: () => void;
 }
 
+const COMPARISON_PREFIX = 'comparison_';
+const comparisonKey = (key: string) => `${COMPARISON_PREFIX}${key}`;
+const seriesName = (key: string) =>
+  isDerivedMetric(key) ? DERIVED_METRICS[key].label : key.charAt(0).toUpperCase() + key.slice(1);
+
+const formatTick = (format: ValueFormat | undefined) => {
+  switch (format) {
+    case 'currency':
+      return (value: number) => `$${value.toLocaleString()}`;
+    case 'percentage':
+      return (value: number) => `${value.toFixed(1)}%`;
+    case 'ratio':
+      return (value: number) => `${value.toFixed(1)}x`;
+    case 'number':
+      return (value: number) => value.toLocaleString();
+    default:
+      return undefined;
+  }
+};
+
 const COLORS = ['hsl(var(--primary))', 'hsl(var(--success))', 'hsl(var(--warning))', 'hsl(var(--info))', 'hsl(var(--danger))'];
 
 export function InteractiveChart({ 
@@ -30,9 +60,42 @@ export function InteractiveChart({
   dataKeys = ['value'], 
   colors = COLORS,
   height = 320,
+  valueFormat = type === 'line' ? 'currency' : undefined,
+  comparisonData,
+  comparisonLabel = 'Comparison',
+  hiddenSeries,
+  onHiddenSeriesChange,
   onExport
 }: InteractiveChartProps) {
-  const { toast } = useToast();
+  const chartRef = useRef<HTMLDivElement>(null);
+  const [internalHiddenSeries, setInternalHiddenSeries] = useState<string[]>([]);
+  const hidden = hiddenSeries ?? internalHiddenSeries;
+  const isHidden = (key: string) => hidden.includes(key);
+
+  // Clicking a legend entry shows or hides that series along with its comparison line
+  const toggleSeries = (entry: { dataKey?: unknown }) => {
+    if (typeof entry.dataKey !== 'string') return;
+    const key = entry.dataKey.startsWith(COMPARISON_PREFIX) ? entry.dataKey.slice(COMPARISON_PREFIX.length) : entry.dataKey;
+    const updated = isHidden(key) ? hidden.filter(hiddenKey => hiddenKey !== key) : [...hidden, key];
+    if (onHiddenSeriesChange) {
+      onHiddenSeriesChange(updated);
+    } else {
+      setInternalHiddenSeries(updated);
+    }
+  };
+  const hasComparison = !!comparisonData?.length && (type === 'line' || type === 'area');
+
+  const chartData = useMemo(() => {
+    if (!hasComparison) return data;
+    return data.map((point, index) => {
+      const compared = comparisonData[index];
+      return {
+        ...point,
+        ...Object.fromEntries(dataKeys.map(key => [comparisonKey(key), compared?.[key as keyof ChartDataPoint]]))
+      };
+    });
+  }, [data, comparisonData, dataKeys, hasComparison]);
+
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
@@ -44,7 +107,7 @@ export function InteractiveChart({
                 className="w-3 h-3 rounded-full" 
                 style={{ backgroundColor: entry.color }}
               />
-              <span className="text-muted-foreground">{entry.dataKey}:</span>
+              <span className="text-muted-foreground">{entry.name}:</span>
               <span className="font-medium text-foreground">
                 {typeof entry.value === 'number' 
                   ? entry.value.toLocaleString() 
@@ -58,40 +121,42 @@ export function InteractiveChart({
     return null;
   };
 
-  const handleExport = () => {
-    const headers = ['name', ...dataKeys].join(',');
-    const csvData = [
-      headers,
-      ...data.map(item => [
-        `"${item.name}"`,
-        ...dataKeys.map(key => item[key as keyof ChartDataPoint] || 0)
-      ].join(','))
-    ].join('\n');
-    
-    const blob = new Blob([csvData], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${title.toLowerCase().replace(/\s+/g, '-')}-chart-data.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Export Successful",
-      description: `${title} chart data exported as CSV`,
-      duration: 2000,
-    });
-    
-    onExport?.();
+  // Exports carry the series currently shown, with comparison series beside them
+  const exportSource: ExportSource = {
+    name: title,
+    table: () => {
+      const keys = type === 'pie' ? dataKeys : dataKeys.filter(key => !isHidden(key));
+      return {
+        columns: [
+          { key: 'name', label: 'Name' },
+          ...keys.map(key => ({ key, label: seriesName(key), format: valueFormat })),
+          ...(hasComparison
+            ? keys.map(key => ({ key: comparisonKey(key), label: `${seriesName(key)} (${comparisonLabel})`, format: valueFormat }))
+            : [])
+        ],
+        rows: chartData.map(point => ({ ...point }))
+      };
+    },
+    image: () => {
+      const svg = chartRef.current?.querySelector<SVGSVGElement>('.recharts-wrapper > svg');
+      if (!svg) return null;
+      const legend = type === 'pie'
+        ? data.map((point, index) => ({ label: point.name, color: colors[index % colors.length] }))
+        : [
+            ...dataKeys.map((key, index) => ({ key, label: seriesName(key), color: colors[index % colors.length] })),
+            ...(hasComparison
+              ? dataKeys.map((key, index) => ({ key, label: `${seriesName(key)} (${comparisonLabel})`, color: colors[index % colors.length], dashed: true }))
+              : [])
+          ].filter(entry => !isHidden(entry.key));
+      return { svg, title, legend };
+    }
   };
 
   const renderChart = () => {
     switch (type) {
       case 'line':
         return (
-          <LineChart data={data}>
+          <LineChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
             <XAxis 
               dataKey="name" 
@@ -105,27 +170,43 @@ export function InteractiveChart({
               fontSize={12}
               tickLine={false}
               axisLine={false}
-              tickFormatter={(value) => `$${value.toLocaleString()}`}
+              tickFormatter={formatTick(valueFormat)}
             />
             <Tooltip content={<CustomTooltip />} />
-            <Legend />
+            <Legend onClick={toggleSeries} wrapperStyle={{ cursor: 'pointer' }} />
             {dataKeys.map((key, index) => (
               <Line
                 key={key}
                 type="monotone"
                 dataKey={key}
+                name={seriesName(key)}
+                hide={isHidden(key)}
                 stroke={colors[index % colors.length]}
                 strokeWidth={2}
                 dot={{ r: 4 }}
                 activeDot={{ r: 6 }}
               />
             ))}
+            {hasComparison && dataKeys.map((key, index) => (
+              <Line
+                key={comparisonKey(key)}
+                type="monotone"
+                dataKey={comparisonKey(key)}
+                hide={isHidden(key)}
+                name={`${seriesName(key)} (${comparisonLabel})`}
+                stroke={colors[index % colors.length]}
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                strokeOpacity={0.6}
+                dot={false}
+              />
+            ))}
           </LineChart>
         );
 
       case 'area':
         return (
-          <AreaChart data={data}>
+          <AreaChart data={chartData}>
             <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
             <XAxis 
               dataKey="name" 
@@ -139,20 +220,36 @@ export function InteractiveChart({
               fontSize={12}
               tickLine={false}
               axisLine={false}
+              tickFormatter={formatTick(valueFormat)}
             />
             <Tooltip content={<CustomTooltip />} />
-            <Legend />
+            <Legend onClick={toggleSeries} wrapperStyle={{ cursor: 'pointer' }} />
             {dataKeys.map((key, index) => (
               <Area
                 key={key}
                 type="monotone"
                 dataKey={key}
+                name={seriesName(key)}
+                hide={isHidden(key)}
                 stackId="1"
                 stroke={colors[index % colors.length]}
                 fill={colors[index % colors.length]}
                 fillOpacity={0.6}
               />
             ))}
+            {hasComparison && dataKeys.map((key, index) => (
+              <Area
+                key={comparisonKey(key)}
+                type="monotone"
+                dataKey={comparisonKey(key)}
+                hide={isHidden(key)}
+                name={`${seriesName(key)} (${comparisonLabel})`}
+                stackId="comparison"
+                stroke={colors[index % colors.length]}
+                strokeDasharray="5 5"
+                fill="none"
+              />
+            ))}
           </AreaChart>
         );
 
@@ -172,13 +269,16 @@ export function InteractiveChart({
               fontSize={12}
               tickLine={false}
               axisLine={false}
+              tickFormatter={formatTick(valueFormat)}
             />
             <Tooltip content={<CustomTooltip />} />
-            <Legend />
+            <Legend onClick={toggleSeries} wrapperStyle={{ cursor: 'pointer' }} />
             {dataKeys.map((key, index) => (
               <Bar
                 key={key}
                 dataKey={key}
+                name={seriesName(key)}
+                hide={isHidden(key)}
                 fill={colors[index % colors.length]}
                 radius={[4, 4, 0, 0]}
               />
@@ -217,24 +317,18 @@ export function InteractiveChart({
       <CardHeader className="flex flex-row items-center justify-between">
         <CardTitle className="text-lg font-semibold">{title}</CardTitle>
         <div className="flex items-center gap-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleExport}
-            className="gap-2"
-          >
-            <Download className="h-4 w-4" />
-            Export Data
-          </Button>
+          <ExportMenu source={exportSource} label="Export" onExported={() => onExport?.()} />
           <Badge variant="secondary" className="text-xs">
             {type.charAt(0).toUpperCase() + type.slice(1)} Chart
           </Badge>
         </div>
       </CardHeader>
       <CardContent>
-        <ResponsiveContainer width="100%" height={height}>
-          {renderChart()}
-        </ResponsiveContainer>
+        <div ref={chartRef}>
+          <ResponsiveContainer width="100%" height={height}>
+            {renderChart()}
+          </ResponsiveContainer>
+        </div>
       </CardContent>
     </Card>
   );
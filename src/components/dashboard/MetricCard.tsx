@@ -1,32 +1,73 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Button } from "@/components/ui/button";
-import { ArrowUp, ArrowDown, Minus, TrendingUp, TrendingDown, Download } from "lucide-react";
+import { ArrowUp, ArrowDown, Minus, TrendingUp, TrendingDown } from "lucide-react";
 import { MetricData } from "@/services/mockData";
+import { metricsExportTable, type ValueFormat } from "@/services/report";
+import type { ExportSource } from "@/services/exportPipeline";
 import { cn } from "@/lib/utils";
-import { useToast } from "@/hooks/use-toast";
+import { ExportMenu } from "@/components/dashboard/ExportMenu";
 
 interface MetricCardProps {
   title: string;
-  data: MetricData;
+  /** Missing when the metric could not be loaded; the card then says there is no data */
+  data?: MetricData;
   icon: React.ReactNode;
-  format?: 'currency' | 'number' | 'percentage';
+  format?: ValueFormat;
+  comparisonLabel?: string;
+  /** Colours a fall as good news, e.g. for cost per acquisition */
+  lowerIsBetter?: boolean;
   onExport?: () => void;
 }
 
-export function MetricCard({ title, data, icon, format = 'number', onExport }: MetricCardProps) {
-  const { toast } = useToast();
+export function MetricCard({
+  title,
+  data,
+  icon,
+  format = 'number',
+  comparisonLabel = 'vs previous period',
+  lowerIsBetter = false,
+  onExport
+}: MetricCardProps) {
+  if (!data) {
+    return (
+      <Card className="border-border/50 bg-gradient-to-br from-card to-card/50">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+          <CardTitle className="text-sm font-medium text-muted-foreground">
+            {title}
+          </CardTitle>
+          <div className="h-8 w-8 rounded-md bg-muted flex items-center justify-center text-muted-foreground">
+            {icon}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-1">
+            <div className="text-2xl font-bold text-muted-foreground">—</div>
+            <span className="text-xs text-muted-foreground">No data available</span>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Positive when the change is an improvement
+  const improvement = lowerIsBetter ? -data.change : data.change;
+
   const formatValue = (value: number): string => {
     switch (format) {
-      case 'currency':
+      case 'currency': {
+        // Keep cents for unit costs such as CPC, always two of them ("$12.50")
+        const fractionDigits = Math.abs(value) < 100 ? 2 : 0;
         return new Intl.NumberFormat('en-US', {
           style: 'currency',
           currency: 'USD',
-          minimumFractionDigits: 0,
-          maximumFractionDigits: 0,
+          minimumFractionDigits: fractionDigits,
+          maximumFractionDigits: fractionDigits,
         }).format(value);
+      }
       case 'percentage':
         return `${value.toFixed(1)}%`;
+      case 'ratio':
+        return `${value.toFixed(2)}x`;
       default:
         return new Intl.NumberFormat('en-US').format(Math.floor(value));
     }
@@ -35,9 +76,9 @@ export function MetricCard({ title, data, icon, format = 'number', onExport }: M
   const getTrendIcon = () => {
     switch (data.trend) {
       case 'up':
-        return <TrendingUp className="h-4 w-4 text-success" />;
+        return <TrendingUp className={cn("h-4 w-4", lowerIsBetter ? "text-danger" : "text-success")} />;
       case 'down':
-        return <TrendingDown className="h-4 w-4 text-danger" />;
+        return <TrendingDown className={cn("h-4 w-4", lowerIsBetter ? "text-success" : "text-danger")} />;
       default:
         return <Minus className="h-4 w-4 text-muted-foreground" />;
     }
@@ -53,33 +94,17 @@ export function MetricCard({ title, data, icon, format = 'number', onExport }: M
   };
 
   const getChangeColor = () => {
-    if (data.change > 0) {
+    if (improvement > 0) {
       return "bg-success-light text-success border-success/20";
-    } else if (data.change < 0) {
+    } else if (improvement < 0) {
       return "bg-danger-light text-danger border-danger/20";
     }
     return "bg-muted text-muted-foreground";
   };
 
-  const handleExport = () => {
-    const csvData = `Metric,Value,Change,Trend\n"${title}","${formatValue(data.value)}","${data.change.toFixed(1)}%","${data.trend}"`;
-    const blob = new Blob([csvData], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${title.toLowerCase().replace(/\s+/g, '-')}-metric.csv`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    
-    toast({
-      title: "Export Successful",
-      description: `${title} metric exported as CSV`,
-      duration: 2000,
-    });
-    
-    onExport?.();
+  const exportSource: ExportSource = {
+    name: `${title} Metric`,
+    table: () => metricsExportTable([{ label: title, data, format }], comparisonLabel)
   };
 
   return (
@@ -89,14 +114,12 @@ export function MetricCard({ title, data, icon, format = 'number', onExport }: M
           {title}
         </CardTitle>
         <div className="flex items-center gap-2">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleExport}
-            className="h-8 w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity"
-          >
-            <Download className="h-4 w-4" />
-          </Button>
+          <ExportMenu
+            source={exportSource}
+            formats={['csv', 'tsv', 'json', 'xlsx']}
+            onExported={() => onExport?.()}
+            className="opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100 transition-opacity"
+          />
           <div className="h-8 w-8 rounded-md bg-primary/10 flex items-center justify-center text-primary group-hover:bg-primary/20 transition-colors">
             {icon}
           </div>
@@ -116,7 +139,7 @@ export function MetricCard({ title, data, icon, format = 'number', onExport }: M
                 {getChangeIcon()}
                 <span>{Math.abs(data.change).toFixed(1)}%</span>
               </Badge>
-              <span className="text-xs text-muted-foreground">vs last month</span>
+              <span className="text-xs text-muted-foreground">{comparisonLabel}</span>
             </div>
           </div>
           <div className="flex flex-col items-end space-y-1">
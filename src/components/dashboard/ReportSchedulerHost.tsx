@@ -0,0 +1,7 @@
+import { useReportScheduler } from "@/hooks/use-report-subscriptions";
+
+/** Keeps scheduled reports running on every page while the app is open */
+export function ReportSchedulerHost() {
+  useReportScheduler();
+  return null;
+}
@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "@/components/ui/select";
+import { CalendarClock, Play, Trash2 } from "lucide-react";
+import { REPORT_FORMAT_LABELS, type ReportFormat } from "@/services/reportFiles";
+import {
+  describeSchedule,
+  FREQUENCY_LABELS,
+  WEEKDAY_LABELS,
+  type ReportFrequency,
+  type ReportSchedule
+} from "@/services/reportSubscriptions";
+import { captureViewState } from "@/services/savedViews";
+import type { DashboardViewState } from "@/services/viewState";
+import { useReportSubscriptions } from "@/hooks/use-report-subscriptions";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReportSubscriptionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** New subscriptions report on this view's filters, sort and chart series */
+  viewState: DashboardViewState;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const DAYS_OF_MONTH = Array.from({ length: 28 }, (_, index) => index + 1);
+
+const DEFAULT_SCHEDULE: ReportSchedule = { frequency: 'weekly', hour: 8, weekday: 1, dayOfMonth: 1 };
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+export function ReportSubscriptionsDialog({ open, onOpenChange, viewState }: ReportSubscriptionsDialogProps) {
+  const { toast } = useToast();
+  const {
+    subscriptions,
+    deliveryLabel,
+    createSubscription,
+    updateSubscription,
+    removeSubscription,
+    runSubscription,
+    runningId
+  } = useReportSubscriptions();
+
+  const [name, setName] = useState('');
+  const [schedule, setSchedule] = useState<ReportSchedule>(DEFAULT_SCHEDULE);
+  const [format, setFormat] = useState<ReportFormat>('pdf');
+  const [recipients, setRecipients] = useState('');
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Report subscriptions",
+      description: error instanceof Error ? error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async () => {
+    try {
+      await createSubscription({
+        name,
+        schedule,
+        format,
+        recipients: recipients.split(/[,;\s]+/),
+        view: captureViewState(viewState)
+      });
+      toast({ title: "Subscription created", description: describeSchedule(schedule), duration: 3000 });
+      setName('');
+      setRecipients('');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5" />
+            Scheduled Reports
+          </DialogTitle>
+          <DialogDescription>
+            Reports are produced while the dashboard is open and delivered via: {deliveryLabel}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Existing Subscriptions */}
+        <div className="space-y-2">
+          {subscriptions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No scheduled reports yet.</p>
+          ) : (
+            subscriptions.map(subscription => (
+              <div key={subscription.id} className="flex items-start justify-between gap-4 rounded-lg border p-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold truncate">{subscription.name}</span>
+                    <Badge variant="secondary" className="text-xs uppercase">{subscription.format}</Badge>
+                    {subscription.lastError && <Badge variant="destructive" className="text-xs">Last run failed</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">{describeSchedule(subscription.schedule)}</div>
+                  <div className="text-xs text-muted-foreground truncate">To: {subscription.recipients.join(', ')}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {subscription.enabled ? `Next: ${formatDateTime(subscription.nextRunAt)}` : "Paused"}
+                    {subscription.lastRunAt && ` · Last: ${formatDateTime(subscription.lastRunAt)}`}
+                  </div>
+                  {subscription.lastError && (
+                    <div className="text-xs text-danger">{subscription.lastError}</div>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Switch
+                    checked={subscription.enabled}
+                    onCheckedChange={(enabled) => updateSubscription({ id: subscription.id, changes: { enabled } }).catch(showError)}
+                    aria-label={subscription.enabled ? "Pause subscription" : "Resume subscription"}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Send now"
+                    disabled={runningId === subscription.id}
+                    onClick={() => runSubscription(subscription.id).catch(showError)}
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title="Delete subscription"
+                    onClick={() => removeSubscription(subscription.id).catch(showError)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* New Subscription */}
+        <form
+          className="space-y-4 border-t pt-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreate();
+          }}
+        >
+          <div>
+            <h3 className="font-semibold">New subscription</h3>
+            <p className="text-xs text-muted-foreground">Uses the dashboard's current filters, sort and chart series.</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="subscription-name">Name</Label>
+              <Input id="subscription-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Weekly client summary" />
+            </div>
+            <div className="space-y-1">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as ReportFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(REPORT_FORMAT_LABELS) as ReportFormat[]).map(option => (
+                    <SelectItem key={option} value={option}>{REPORT_FORMAT_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Frequency</Label>
+              <Select
+                value={schedule.frequency}
+                onValueChange={(value) => setSchedule({ ...schedule, frequency: value as ReportFrequency })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FREQUENCY_LABELS) as ReportFrequency[]).map(option => (
+                    <SelectItem key={option} value={option}>{FREQUENCY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {schedule.frequency === 'weekly' && (
+                <div className="space-y-1">
+                  <Label>Day</Label>
+                  <Select
+                    value={String(schedule.weekday)}
+                    onValueChange={(value) => setSchedule({ ...schedule, weekday: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WEEKDAY_LABELS.map((label, weekday) => (
+                        <SelectItem key={label} value={String(weekday)}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {schedule.frequency === 'monthly' && (
+                <div className="space-y-1">
+                  <Label>Day</Label>
+                  <Select
+                    value={String(schedule.dayOfMonth)}
+                    onValueChange={(value) => setSchedule({ ...schedule, dayOfMonth: Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAYS_OF_MONTH.map(day => (
+                        <SelectItem key={day} value={String(day)}>{day}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Label>Time</Label>
+                <Select
+                  value={String(schedule.hour)}
+                  onValueChange={(value) => setSchedule({ ...schedule, hour: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {HOURS.map(hour => (
+                      <SelectItem key={hour} value={String(hour)}>{`${String(hour).padStart(2, '0')}:00`}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="subscription-recipients">Recipients</Label>
+            <Input
+              id="subscription-recipients"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+              placeholder="alex@agency.com, client@brand.com"
+            />
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={!name.trim() || !recipients.trim()}>
+              Create subscription
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from "@/components/ui/dialog";
+import { Bookmark, BookmarkPlus, Pencil, Star, Trash2 } from "lucide-react";
+import { captureViewState, type SavedView } from "@/services/savedViews";
+import type { DashboardViewState } from "@/services/viewState";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface SavedViewsPanelProps {
+  viewState: DashboardViewState;
+  onApplyView: (view: SavedView) => void;
+}
+
+type NameDialog = { mode: 'create' } | { mode: 'rename'; view: SavedView };
+
+export function SavedViewsPanel({ viewState, onApplyView }: SavedViewsPanelProps) {
+  const { toast } = useToast();
+  const { views, createView, renameView, removeView, setDefaultView } = useSavedViews();
+  const [dialog, setDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState('');
+
+  // Store errors (duplicate or empty names, missing views) are shown rather than thrown
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    try {
+      await action();
+      toast({ title: success, duration: 2000 });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Saved views",
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const openDialog = (next: NameDialog) => {
+    setName(next.mode === 'rename' ? next.view.name : '');
+    setDialog(next);
+  };
+
+  const submitName = async () => {
+    if (!dialog) return;
+    const saved = dialog.mode === 'create'
+      ? await run(() => createView({ name, state: captureViewState(viewState) }), `Saved view "${name.trim()}"`)
+      : await run(() => renameView({ id: dialog.view.id, name }), `Renamed to "${name.trim()}"`);
+    if (saved) setDialog(null);
+  };
+
+  const applyView = (view: SavedView) => {
+    onApplyView(view);
+    toast({ title: `Applied "${view.name}"`, duration: 2000 });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium flex items-center gap-2">
+          <Bookmark className="h-4 w-4" />
+          Saved Views
+        </Label>
+        <Button variant="ghost" size="sm" className="gap-1" onClick={() => openDialog({ mode: 'create' })}>
+          <BookmarkPlus className="h-4 w-4" />
+          Save current
+        </Button>
+      </div>
+
+      {views.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Save the current filters, sort, columns and chart series to reuse them later.
+        </p>
+      ) : (
+        <div className="space-y-1">
+          {views.map(view => (
+            <div key={view.id} className="flex items-center gap-1 rounded-md hover:bg-muted/50">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="flex-1 justify-start truncate font-normal"
+                onClick={() => applyView(view)}
+              >
+                {view.name}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                title={view.isDefault ? "Default view" : "Make default view"}
+                onClick={() => run(
+                  () => setDefaultView(view.isDefault ? null : view.id),
+                  view.isDefault ? "Default view cleared" : `"${view.name}" is now the default view`
+                )}
+              >
+                <Star className={cn("h-4 w-4", view.isDefault && "fill-warning text-warning")} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                title="Rename view"
+                onClick={() => openDialog({ mode: 'rename', view })}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                title="Delete view"
+                onClick={() => run(() => removeView(view.id), `Deleted "${view.name}"`)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{dialog?.mode === 'rename' ? "Rename view" : "Save current view"}</DialogTitle>
+            <DialogDescription>
+              {dialog?.mode === 'rename'
+                ? "Give this view a new name."
+                : "Filters, table sort and column filters, visible columns and chart series are saved. A date range ending today is kept as a rolling window."}
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              submitName();
+            }}
+            className="space-y-2"
+          >
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Active retail campaigns"
+              autoFocus
+            />
+            <DialogFooter className="pt-2">
+              <Button type="button" variant="outline" onClick={() => setDialog(null)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!name.trim()}>
+                {dialog?.mode === 'rename' ? "Rename" : "Save"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
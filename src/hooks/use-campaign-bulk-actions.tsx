@@ -0,0 +1,143 @@
+import { useQueryClient } from "@tanstack/react-query"
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { ToastAction } from "@/components/ui/toast"
+import { describeBulkAction, type BulkActionPlan } from "@/services/campaignBulkActions"
+import type { CampaignChanges } from "@/services/campaignEditing"
+import { getDataSource } from "@/services/dataSource"
+import { dashboardKeys } from "@/hooks/use-dashboard-data"
+import { useToast } from "@/hooks/use-toast"
+
+/** How long a bulk action can be undone; deletes are only sent once it has passed */
+export const UNDO_WINDOW_MS = 8000
+
+const NO_IDS: string[] = []
+
+const plural = (count: number) => `${count} campaign${count === 1 ? "" : "s"}`
+
+/**
+ * Runs confirmed bulk action plans and offers an undo toast. Edits are applied at once
+ * and undone by restoring the previous values; deleted campaigns are hidden straight
+ * away but only removed from the data source when the undo window closes, or at once
+ * when the page is left before then.
+ */
+export function useCampaignBulkActions() {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+  const [pendingDeletionIds, setPendingDeletionIds] = useState<string[]>(NO_IDS)
+  // Deletes waiting out their undo window, sent by their timer or straight away on unmount
+  const pendingDeletes = useRef(new Map<ReturnType<typeof setTimeout>, () => Promise<unknown>>())
+
+  useEffect(() => {
+    const deletes = pendingDeletes.current
+    return () => {
+      deletes.forEach((commit, timer) => {
+        clearTimeout(timer)
+        void commit()
+      })
+      deletes.clear()
+    }
+  }, [])
+
+  const applyChanges = useCallback(
+    async (updates: Array<{ id: string; changes: CampaignChanges }>) => {
+      const dataSource = getDataSource()
+      const results = await Promise.allSettled(updates.map(({ id, changes }) => dataSource.updateCampaign(id, changes)))
+      await queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+      return updates.filter((_, index) => results[index].status === "fulfilled").map(({ id }) => id)
+    },
+    [queryClient]
+  )
+
+  const deleteLater = useCallback(
+    (plan: BulkActionPlan) => {
+      const ids = plan.deletions.map(campaign => campaign.id)
+      const release = () => setPendingDeletionIds(current => current.filter(id => !ids.includes(id)))
+      setPendingDeletionIds(current => [...current, ...ids])
+
+      const commit = async () => {
+        const dataSource = getDataSource()
+        const results = await Promise.allSettled(ids.map(id => dataSource.deleteCampaign(id)))
+        await queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+
+        // Campaigns that could not be deleted come back, so say why
+        const failed = plan.deletions.filter((_, index) => results[index].status === "rejected")
+        if (failed.length > 0) {
+          const reason = results.find((result): result is PromiseRejectedResult => result.status === "rejected")?.reason
+          toast({
+            title: `${plural(failed.length)} could not be deleted`,
+            description: reason instanceof Error ? reason.message : failed.map(campaign => campaign.name).slice(0, 3).join(", "),
+            variant: "destructive",
+          })
+        }
+      }
+      const timer = setTimeout(async () => {
+        pendingDeletes.current.delete(timer)
+        await commit()
+        release()
+      }, UNDO_WINDOW_MS)
+      pendingDeletes.current.set(timer, commit)
+
+      toast({
+        title: `${plural(ids.length)} deleted`,
+        description: plan.deletions.map(campaign => campaign.name).slice(0, 3).join(", ") +
+          (ids.length > 3 ? ` and ${ids.length - 3} more` : ""),
+        duration: UNDO_WINDOW_MS,
+        action: (
+          <ToastAction
+            altText="Undo delete"
+            onClick={() => {
+              clearTimeout(timer)
+              pendingDeletes.current.delete(timer)
+              release()
+            }}
+          >
+            Undo
+          </ToastAction>
+        ),
+      })
+    },
+    [queryClient, toast]
+  )
+
+  const runBulkAction = useCallback(
+    async (plan: BulkActionPlan) => {
+      if (plan.action.type === "delete") {
+        deleteLater(plan)
+        return
+      }
+
+      const title = describeBulkAction(plan.action)
+      const applied = await applyChanges(plan.updates.map(({ campaign, changes }) => ({ id: campaign.id, changes })))
+      const failed = plan.updates.length - applied.length
+      const previous = plan.updates
+        .filter(({ campaign }) => applied.includes(campaign.id))
+        .map(({ campaign, previous: changes }) => ({ id: campaign.id, changes }))
+
+      toast({
+        title,
+        description: `${plural(applied.length)} updated${failed > 0 ? `, ${failed} failed` : ""}`,
+        variant: applied.length === 0 ? "destructive" : "default",
+        duration: UNDO_WINDOW_MS,
+        action: previous.length > 0 ? (
+          <ToastAction
+            altText="Undo changes"
+            onClick={async () => {
+              const restored = await applyChanges(previous)
+              toast({ title: "Changes undone", description: `${plural(restored.length)} restored`, duration: 3000 })
+            }}
+          >
+            Undo
+          </ToastAction>
+        ) : undefined,
+      })
+    },
+    [applyChanges, deleteLater, toast]
+  )
+
+  return {
+    runBulkAction,
+    /** Campaigns deleted but still inside the undo window; leave them out of everything shown */
+    pendingDeletionIds,
+  }
+}
@@ -0,0 +1,66 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { useCallback } from "react"
+
+import { buildImportedDataset, type ImportedCampaign } from "@/services/campaignImport"
+import { getDataSource, ImportedDataSource, setDataSource, type DataSource } from "@/services/dataSource"
+import { dashboardKeys } from "@/hooks/use-dashboard-data"
+
+// The source an import replaced, restored when the imported data is cleared
+let replacedDataSource: DataSource | null = null
+
+export const campaignImportKeys = {
+  active: ["campaignImport"] as const,
+}
+
+const activeImportLabel = () => {
+  const dataSource = getDataSource()
+  return dataSource instanceof ImportedDataSource ? dataSource.label : null
+}
+
+/** Loads imported campaigns as the dashboard's dataset, and restores the original data on reset */
+export function useCampaignImport() {
+  const queryClient = useQueryClient()
+
+  const active = useQuery({
+    queryKey: campaignImportKeys.active,
+    queryFn: activeImportLabel,
+    staleTime: Infinity,
+  })
+
+  const reload = useCallback(
+    () => Promise.all([
+      queryClient.invalidateQueries({ queryKey: campaignImportKeys.active }),
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.all }),
+    ]),
+    [queryClient]
+  )
+
+  const importCampaigns = useCallback(
+    async (campaigns: ImportedCampaign[], label: string) => {
+      const current = getDataSource()
+      if (!(current instanceof ImportedDataSource)) {
+        replacedDataSource = current
+      }
+      setDataSource(new ImportedDataSource(buildImportedDataset(campaigns), label))
+      await reload()
+    },
+    [reload]
+  )
+
+  const resetImport = useCallback(
+    async () => {
+      if (!replacedDataSource) return
+      setDataSource(replacedDataSource)
+      replacedDataSource = null
+      await reload()
+    },
+    [reload]
+  )
+
+  return {
+    /** Names the imported file while imported data is shown, otherwise null */
+    importedLabel: active.data ?? null,
+    importCampaigns,
+    resetImport,
+  }
+}
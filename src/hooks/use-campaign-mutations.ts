@@ -0,0 +1,53 @@
+import { useMutation, useQueryClient, type QueryKey } from "@tanstack/react-query"
+
+import type { CampaignChanges, CampaignInput } from "@/services/campaignEditing"
+import type { CampaignPage } from "@/services/campaignQuery"
+import { getDataSource } from "@/services/dataSource"
+import type { CampaignData } from "@/services/mockData"
+import { dashboardKeys } from "@/hooks/use-dashboard-data"
+
+/**
+ * Creates and edits campaigns on the active data source, refreshing every dashboard query
+ * when they settle. Edits show in cached campaign lists, pages and details straight away
+ * and are rolled back if the data source rejects them.
+ */
+export function useCampaignMutations() {
+  const queryClient = useQueryClient()
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+
+  const create = useMutation({
+    mutationFn: (input: CampaignInput) => getDataSource().createCampaign(input),
+    onSettled,
+  })
+  const update = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: CampaignChanges }) => getDataSource().updateCampaign(id, changes),
+    onMutate: async ({ id, changes }) => {
+      // A refresh landing now would overwrite the edit with what the data source had before it
+      await queryClient.cancelQueries({ queryKey: dashboardKeys.all })
+      const previous: Array<[QueryKey, unknown]> = [
+        ...queryClient.getQueriesData({ queryKey: dashboardKeys.campaignLists() }),
+        ...queryClient.getQueriesData({ queryKey: dashboardKeys.campaignPages() }),
+        ...queryClient.getQueriesData({ queryKey: dashboardKeys.campaign(id) }),
+      ]
+
+      const patch = (campaign: CampaignData) => (campaign.id === id ? { ...campaign, ...changes } : campaign)
+      queryClient.setQueriesData<CampaignData[]>({ queryKey: dashboardKeys.campaignLists() }, campaigns => campaigns?.map(patch))
+      queryClient.setQueriesData<CampaignPage>({ queryKey: dashboardKeys.campaignPages() }, page =>
+        page && { ...page, rows: page.rows.map(patch) }
+      )
+      queryClient.setQueryData<CampaignData>(dashboardKeys.campaign(id), campaign => campaign && patch(campaign))
+      return { previous }
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([queryKey, data]) => queryClient.setQueryData<unknown>(queryKey, data))
+    },
+    onSettled,
+  })
+
+  return {
+    createCampaign: create.mutateAsync,
+    updateCampaign: update.mutateAsync,
+    /** The campaign an edit is in flight for, e.g. to disable its row actions */
+    updatingId: update.isPending ? update.variables?.id : undefined,
+  }
+}
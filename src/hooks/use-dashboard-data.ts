@@ -0,0 +1,288 @@
+import { keepPreviousData, useQueries, useQuery, useQueryClient, type UseQueryResult } from "@tanstack/react-query"
+import { useCallback, useMemo, useState } from "react"
+
+import { getDataSource, type DataSourceError } from "@/services/dataSource"
+import { SCROLL_WINDOW_SIZE, type CampaignPage, type CampaignQuery } from "@/services/campaignQuery"
+import {
+  buildFilterFacets,
+  createClientFilters,
+  DEFAULT_BUDGET_RANGE,
+  resolveComparisonRange,
+  type DashboardFilters,
+} from "@/services/filters"
+import { summarizeClients } from "@/services/aggregations"
+import { toISODate } from "@/lib/dates"
+import { CAMPAIGN_STATUSES, type CampaignData, type ChartDataPoint, type MetricData } from "@/services/mockData"
+
+// Metrics may be missing, e.g. while the query fails, so lookups can come back undefined
+const NO_METRICS: Partial<Record<string, MetricData>> = {}
+const NO_POINTS: ChartDataPoint[] = []
+const NO_CAMPAIGNS: CampaignData[] = []
+const LOAD_MATCHING_PAGE_SIZE = 500
+
+export const dashboardKeys = {
+  all: ["dashboard"] as const,
+  metrics: (filters?: DashboardFilters) => [...dashboardKeys.all, "metrics", filters] as const,
+  timeSeries: (filters?: DashboardFilters) => [...dashboardKeys.all, "timeSeries", filters] as const,
+  comparisonTimeSeries: (filters?: DashboardFilters) => [...dashboardKeys.all, "comparisonTimeSeries", filters] as const,
+  channels: (filters?: DashboardFilters) => [...dashboardKeys.all, "channels", filters] as const,
+  adTypes: (filters?: DashboardFilters) => [...dashboardKeys.all, "adTypes", filters] as const,
+  campaigns: (filters?: DashboardFilters) => [...dashboardKeys.all, "campaigns", filters] as const,
+  /** Every cached campaign list or page, whatever it was filtered by */
+  campaignLists: () => [...dashboardKeys.all, "campaigns"] as const,
+  campaignPages: () => [...dashboardKeys.all, "campaignPage"] as const,
+  campaignPage: (query: CampaignQuery, filters?: DashboardFilters) =>
+    [...dashboardKeys.all, "campaignPage", query, filters] as const,
+  campaign: (id: string) => [...dashboardKeys.all, "campaign", id] as const,
+  campaignTimeSeries: (id: string) => [...dashboardKeys.all, "campaignTimeSeries", id] as const,
+  asOfDate: () => [...dashboardKeys.all, "asOfDate"] as const,
+}
+
+export function useDashboardData(filters?: DashboardFilters) {
+  // Keep showing the previous results while a filter change is being fetched
+  const metrics = useQuery({
+    queryKey: dashboardKeys.metrics(filters),
+    queryFn: () => getDataSource().getMetrics(filters),
+    placeholderData: keepPreviousData,
+  })
+  const timeSeries = useQuery({
+    queryKey: dashboardKeys.timeSeries(filters),
+    queryFn: () => getDataSource().getTimeSeries(filters),
+    placeholderData: keepPreviousData,
+  })
+  // The comparison series is the same query run over the comparison range
+  const comparisonTimeSeries = useQuery({
+    queryKey: dashboardKeys.comparisonTimeSeries(filters),
+    queryFn: () => getDataSource().getTimeSeries({ ...filters, dateRange: resolveComparisonRange(filters) }),
+    placeholderData: keepPreviousData,
+    enabled: !!filters,
+  })
+  const channels = useQuery({
+    queryKey: dashboardKeys.channels(filters),
+    queryFn: () => getDataSource().getChannelBreakdown(filters),
+    placeholderData: keepPreviousData,
+  })
+  const adTypes = useQuery({
+    queryKey: dashboardKeys.adTypes(filters),
+    queryFn: () => getDataSource().getAdTypeMix(filters),
+    placeholderData: keepPreviousData,
+  })
+  const campaigns = useQuery({
+    queryKey: dashboardKeys.campaigns(filters),
+    queryFn: () => getDataSource().getCampaigns(filters),
+    placeholderData: keepPreviousData,
+  })
+
+  const queries = [metrics, timeSeries, channels, adTypes, campaigns]
+
+  return {
+    metrics: metrics.data ?? NO_METRICS,
+    timeSeries: timeSeries.data ?? NO_POINTS,
+    comparisonTimeSeries: comparisonTimeSeries.data ?? NO_POINTS,
+    channels: channels.data ?? NO_POINTS,
+    adTypes: adTypes.data ?? NO_POINTS,
+    campaigns: campaigns.data ?? NO_CAMPAIGNS,
+    isLoading: queries.some(query => query.isPending),
+    isFetching: queries.some(query => query.isFetching),
+    error: queries.find(query => query.error)?.error ?? null,
+    dataUpdatedAt: Math.max(...queries.map(query => query.dataUpdatedAt)),
+  }
+}
+
+/** One page of the filtered campaigns, searched, sorted and paged by the data source */
+export function useCampaignPage(query: CampaignQuery, filters?: DashboardFilters) {
+  const queryClient = useQueryClient()
+  const page = useQuery({
+    queryKey: dashboardKeys.campaignPage(query, filters),
+    queryFn: () => getDataSource().queryCampaigns(query, filters),
+    placeholderData: keepPreviousData,
+  })
+
+  // Every campaign matching the query, for selecting or exporting beyond the current page.
+  // Paged until the rows run out, as the total shown may still be the previous query's.
+  const loadMatchingCampaigns = useCallback(async () => {
+    const matching: CampaignData[] = []
+    for (let pageNumber = 1; ; pageNumber++) {
+      const pageQuery = { ...query, page: pageNumber, pageSize: LOAD_MATCHING_PAGE_SIZE }
+      const result = await queryClient.fetchQuery({
+        queryKey: dashboardKeys.campaignPage(pageQuery, filters),
+        queryFn: () => getDataSource().queryCampaigns(pageQuery, filters),
+      })
+      // Pages past the end are answered with the last one
+      if (result.page < pageNumber) return matching
+      matching.push(...result.rows)
+      if (result.rows.length < LOAD_MATCHING_PAGE_SIZE) return matching
+    }
+  }, [queryClient, query, filters])
+
+  return {
+    page: page.data,
+    isFetching: page.isFetching,
+    error: page.error,
+    loadMatchingCampaigns,
+  }
+}
+
+// Places each window's rows at their positions among every match
+const combineWindows = (windows: Array<UseQueryResult<CampaignPage>>) => {
+  const rows: Array<CampaignData | undefined> = []
+  windows.forEach(({ data }) => {
+    data?.rows.forEach((campaign, index) => {
+      rows[(data.page - 1) * data.pageSize + index] = campaign
+    })
+  })
+  return { rows, isFetching: windows.some(window => window.isFetching) }
+}
+
+/**
+ * Every campaign matching `query` by position, for scrolling through them all. Only the
+ * windows of rows around the ones in view are asked for; rows elsewhere are undefined.
+ */
+export function useCampaignScroll(query: CampaignQuery, filters: DashboardFilters | undefined, enabled: boolean) {
+  const [windows, setWindows] = useState({ first: 1, last: 1 })
+
+  const pages = Array.from({ length: windows.last - windows.first + 1 }, (_, index) => windows.first + index)
+  const { rows, isFetching } = useQueries({
+    queries: pages.map(page => {
+      const windowQuery = { ...query, page, pageSize: SCROLL_WINDOW_SIZE }
+      return {
+        queryKey: dashboardKeys.campaignPage(windowQuery, filters),
+        queryFn: () => getDataSource().queryCampaigns(windowQuery, filters),
+        enabled,
+      }
+    }),
+    combine: combineWindows,
+  })
+
+  // Rows [start, end) are in view; scrolling within the same windows changes nothing
+  const showRows = useCallback((start: number, end: number) => {
+    const first = Math.floor(start / SCROLL_WINDOW_SIZE) + 1
+    const last = Math.max(Math.ceil(end / SCROLL_WINDOW_SIZE), first)
+    setWindows(current => (current.first === first && current.last === last ? current : { first, last }))
+  }, [])
+
+  return { rows, isFetching, showRows }
+}
+
+export function useCampaignData(id: string) {
+  const campaign = useQuery({
+    queryKey: dashboardKeys.campaign(id),
+    queryFn: () => getDataSource().getCampaign(id),
+    retry: (failureCount, error) => (error as DataSourceError).status !== 404 && failureCount < 3,
+  })
+  const timeSeries = useQuery({
+    queryKey: dashboardKeys.campaignTimeSeries(id),
+    queryFn: () => getDataSource().getCampaignTimeSeries(id),
+    enabled: campaign.isSuccess,
+  })
+
+  return {
+    campaign: campaign.data,
+    timeSeries: timeSeries.data ?? NO_POINTS,
+    isLoading: campaign.isPending || (campaign.isSuccess && timeSeries.isPending),
+    isNotFound: (campaign.error as DataSourceError | null)?.status === 404,
+    error: campaign.error ?? timeSeries.error ?? null,
+  }
+}
+
+/** Filter options and counts from every campaign in the filters' date range, archived ones included */
+export function useFilterFacets(filters: DashboardFilters) {
+  const rangeOnly: DashboardFilters = {
+    dateRange: filters.dateRange,
+    comparison: { mode: "previous" },
+    clients: [],
+    status: CAMPAIGN_STATUSES,
+    budgetRange: DEFAULT_BUDGET_RANGE,
+    excludedCampaignIds: filters.excludedCampaignIds,
+  }
+
+  const campaigns = useQuery({
+    queryKey: dashboardKeys.campaigns(rangeOnly),
+    queryFn: () => getDataSource().getCampaigns(rangeOnly),
+    placeholderData: keepPreviousData,
+  })
+  const campaignsInRange = campaigns.data ?? NO_CAMPAIGNS
+
+  return useMemo(() => buildFilterFacets(campaignsInRange, filters), [campaignsInRange, filters])
+}
+
+/** Every client with lifetime totals, rolled up from the unfiltered campaign list */
+export function useClientsData() {
+  const campaigns = useQuery({
+    queryKey: dashboardKeys.campaigns(),
+    queryFn: () => getDataSource().getCampaigns(),
+  })
+  const allCampaigns = campaigns.data ?? NO_CAMPAIGNS
+  const clients = useMemo(() => summarizeClients(allCampaigns), [allCampaigns])
+
+  return {
+    campaigns: allCampaigns,
+    clients,
+    isLoading: campaigns.isPending,
+    error: campaigns.error,
+  }
+}
+
+/** One client's summary, campaigns, and daily spend from its first campaign until the data's last day */
+export function useClientData(name: string) {
+  const { campaigns: allCampaigns, isLoading, error } = useClientsData()
+  const asOfDate = useQuery({
+    queryKey: dashboardKeys.asOfDate(),
+    queryFn: async () => (await getDataSource().getAsOfDate?.()) ?? toISODate(new Date()),
+  })
+  const lastDay = asOfDate.data
+
+  const campaigns = useMemo(
+    () => allCampaigns.filter(campaign => campaign.client === name),
+    [allCampaigns, name]
+  )
+  const summary = useMemo(() => summarizeClients(campaigns)[0], [campaigns])
+
+  const filters = useMemo(() => {
+    if (campaigns.length === 0 || !lastDay) return undefined
+    const firstStart = campaigns.reduce((earliest, campaign) => (campaign.startDate < earliest ? campaign.startDate : earliest), lastDay)
+    const lastEnd = campaigns.reduce((latest, campaign) => (campaign.endDate > latest ? campaign.endDate : latest), firstStart)
+    return createClientFilters(name, { from: firstStart, to: lastEnd < lastDay ? lastEnd : lastDay })
+  }, [campaigns, name, lastDay])
+
+  const timeSeries = useQuery({
+    queryKey: dashboardKeys.timeSeries(filters),
+    queryFn: () => getDataSource().getTimeSeries(filters),
+    enabled: !!filters,
+  })
+
+  return {
+    summary,
+    campaigns,
+    /** The last day the data covers, which pacing is measured on */
+    asOfDate: lastDay,
+    timeSeries: timeSeries.data ?? NO_POINTS,
+    isLoading: isLoading || asOfDate.isPending || (!!filters && timeSeries.isPending),
+    error: error ?? asOfDate.error ?? timeSeries.error,
+  }
+}
+
+/** Loads every campaign with lifetime totals on demand, e.g. for an "all campaigns" export */
+export function useLoadAllCampaigns() {
+  const queryClient = useQueryClient()
+
+  return useCallback(
+    () => queryClient.fetchQuery({
+      queryKey: dashboardKeys.campaigns(),
+      queryFn: () => getDataSource().getCampaigns(),
+    }),
+    [queryClient]
+  )
+}
+
+export function useRefreshDashboard() {
+  const queryClient = useQueryClient()
+
+  return useCallback(
+    async () => {
+      await getDataSource().refresh?.()
+      return queryClient.invalidateQueries({ queryKey: dashboardKeys.all })
+    },
+    [queryClient]
+  )
+}
@@ -0,0 +1,31 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+
+import { parseViewState, serializeViewState, type DashboardViewState } from "@/services/viewState"
+
+export interface ViewStateUpdateOptions {
+  /** Replace the current history entry instead of pushing a new one, e.g. while typing */
+  replace?: boolean
+}
+
+/**
+ * Dashboard view state held in the URL query string, so views can be shared and the
+ * browser's back/forward buttons step through filter, table and real-time changes.
+ */
+export function useDashboardViewState() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const viewState = useMemo(() => parseViewState(searchParams), [searchParams])
+
+  const updateViewState = useCallback(
+    (changes: Partial<DashboardViewState>, options: ViewStateUpdateOptions = {}) => {
+      setSearchParams(
+        (current) => serializeViewState({ ...parseViewState(current), ...changes }),
+        { replace: options.replace }
+      )
+    },
+    [setSearchParams]
+  )
+
+  return [viewState, updateViewState] as const
+}
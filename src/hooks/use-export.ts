@@ -0,0 +1,45 @@
+import { useCallback } from "react"
+
+import {
+  downloadFile,
+  getExportFormat,
+  renderExport,
+  type ExportFile,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportSource,
+} from "@/services/exportPipeline"
+import { useToast } from "@/hooks/use-toast"
+
+/** Exports and downloads files, reporting the outcome as a toast; resolves to the file, or undefined on failure */
+export function useExport() {
+  const { toast } = useToast()
+
+  const saveFile = useCallback(
+    async (description: string, render: () => ExportFile | Promise<ExportFile>) => {
+      try {
+        const file = await render()
+        downloadFile(file)
+        toast({ title: "Export Successful", description: `${description} saved as ${file.filename}`, duration: 3000 })
+        return file
+      } catch (error) {
+        console.error(`Error exporting ${description}:`, error)
+        toast({
+          title: "Export Failed",
+          description: error instanceof Error ? error.message : `Unable to export ${description}. Please try again.`,
+          variant: "destructive",
+        })
+        return undefined
+      }
+    },
+    [toast]
+  )
+
+  const exportAs = useCallback(
+    (source: ExportSource, format: ExportFormat, options?: ExportOptions) =>
+      saveFile(`${source.name} (${getExportFormat(format).label})`, () => renderExport(source, format, options)),
+    [saveFile]
+  )
+
+  return { exportAs, saveFile }
+}
@@ -0,0 +1,82 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useEffect } from "react"
+
+import { getDeliveryAdapter } from "@/services/reportDelivery"
+import { getReportScheduler } from "@/services/reportScheduler"
+import {
+  getSubscriptionStore,
+  type ReportSubscription,
+  type SubscriptionChanges,
+  type SubscriptionInput,
+} from "@/services/reportSubscriptions"
+import { useToast } from "@/hooks/use-toast"
+
+const NO_SUBSCRIPTIONS: ReportSubscription[] = []
+
+export const subscriptionKeys = {
+  all: ["reportSubscriptions"] as const,
+}
+
+/** Report subscriptions from the active store, with mutations that refresh the list when they settle */
+export function useReportSubscriptions() {
+  const store = getSubscriptionStore()
+  const queryClient = useQueryClient()
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: subscriptionKeys.all })
+
+  const subscriptions = useQuery({
+    queryKey: subscriptionKeys.all,
+    queryFn: () => store.list(),
+  })
+
+  const create = useMutation({
+    mutationFn: (input: SubscriptionInput) => store.create(input),
+    onSettled,
+  })
+  const update = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: SubscriptionChanges }) => store.update(id, changes),
+    onSettled,
+  })
+  const remove = useMutation({
+    mutationFn: (id: string) => store.remove(id),
+    onSettled,
+  })
+  // The scheduler's run listener refreshes the list once the run is recorded
+  const runNow = useMutation({
+    mutationFn: (id: string) => getReportScheduler().runNow(id),
+  })
+
+  return {
+    subscriptions: subscriptions.data ?? NO_SUBSCRIPTIONS,
+    isLoading: subscriptions.isPending,
+    deliveryLabel: getDeliveryAdapter().label,
+    createSubscription: create.mutateAsync,
+    updateSubscription: update.mutateAsync,
+    removeSubscription: remove.mutateAsync,
+    runSubscription: runNow.mutateAsync,
+    runningId: runNow.isPending ? runNow.variables : undefined,
+  }
+}
+
+/** Runs the report scheduler while mounted and reports each delivery as a toast */
+export function useReportScheduler(intervalMs?: number) {
+  const queryClient = useQueryClient()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    const scheduler = getReportScheduler()
+    const unsubscribe = scheduler.onRun((result) => {
+      queryClient.invalidateQueries({ queryKey: subscriptionKeys.all })
+      toast(
+        result.status === "delivered"
+          ? { title: "Report delivered", description: `"${result.subscription.name}" was sent`, duration: 3000 }
+          : { title: "Report failed", description: `"${result.subscription.name}": ${result.error}`, variant: "destructive" }
+      )
+    })
+    scheduler.start(intervalMs)
+
+    return () => {
+      unsubscribe()
+      scheduler.stop()
+    }
+  }, [intervalMs, queryClient, toast])
+}
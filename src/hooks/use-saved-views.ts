@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { getSavedViewStore, type SavedView, type SavedViewState } from "@/services/savedViews"
+
+const NO_VIEWS: SavedView[] = []
+
+export const savedViewKeys = {
+  all: ["savedViews"] as const,
+}
+
+/** Saved views from the active store, with mutations that refresh the list when they settle */
+export function useSavedViews() {
+  const store = getSavedViewStore()
+  const queryClient = useQueryClient()
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: savedViewKeys.all })
+
+  const views = useQuery({
+    queryKey: savedViewKeys.all,
+    queryFn: () => store.list(),
+  })
+
+  const create = useMutation({
+    mutationFn: ({ name, state }: { name: string; state: SavedViewState }) => store.create(name, state),
+    onSettled,
+  })
+  const rename = useMutation({
+    mutationFn: ({ id, name }: { id: string; name: string }) => store.rename(id, name),
+    onSettled,
+  })
+  const remove = useMutation({
+    mutationFn: (id: string) => store.remove(id),
+    onSettled,
+  })
+  const setDefault = useMutation({
+    mutationFn: (id: string | null) => store.setDefault(id),
+    onSettled,
+  })
+
+  const allViews = views.data ?? NO_VIEWS
+
+  return {
+    views: allViews,
+    defaultView: allViews.find(view => view.isDefault),
+    isLoading: views.isPending,
+    createView: create.mutateAsync,
+    renameView: rename.mutateAsync,
+    removeView: remove.mutateAsync,
+    setDefaultView: setDefault.mutateAsync,
+  }
+}
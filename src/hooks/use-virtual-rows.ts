@@ -0,0 +1,49 @@
+import { useEffect, useState, type RefObject } from "react"
+
+interface VirtualRowsOptions {
+  count: number
+  /** Every row is rendered at this height in pixels */
+  rowHeight: number
+  /** Rows rendered above and below the visible ones so fast scrolling doesn't flash blank */
+  overscan?: number
+  enabled?: boolean
+}
+
+/**
+ * The rows of a long list that are inside (or near) the scrolled container, and the space
+ * to leave above and below them. Renders every row while disabled.
+ */
+export function useVirtualRows(
+  containerRef: RefObject<HTMLElement>,
+  { count, rowHeight, overscan = 8, enabled = true }: VirtualRowsOptions
+) {
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!enabled || !container) return
+
+    const update = () => setViewport({ scrollTop: container.scrollTop, height: container.clientHeight })
+    update()
+    container.addEventListener("scroll", update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(container)
+    return () => {
+      container.removeEventListener("scroll", update)
+      observer.disconnect()
+    }
+  }, [containerRef, enabled])
+
+  if (!enabled) {
+    return { start: 0, end: count, spaceBefore: 0, spaceAfter: 0 }
+  }
+
+  const start = Math.max(Math.floor(viewport.scrollTop / rowHeight) - overscan, 0)
+  const end = Math.min(Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + overscan, count)
+  return {
+    start,
+    end: Math.max(end, start),
+    spaceBefore: start * rowHeight,
+    spaceAfter: Math.max(count - end, 0) * rowHeight,
+  }
+}
@@ -0,0 +1,74 @@
+// Calendar-date helpers. Dates are ISO "YYYY-MM-DD" strings handled in UTC so
+// day arithmetic never shifts with the viewer's time zone or DST.
+
+export interface DateRange {
+  /** Inclusive ISO date */
+  from: string
+  /** Inclusive ISO date */
+  to: string
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+
+export function toISODate(date: Date): string {
+  return date.toISOString().split("T")[0]
+}
+
+export function parseISODate(value: string): Date {
+  return new Date(`${value.slice(0, 10)}T00:00:00.000Z`)
+}
+
+/** Midnight UTC of the given instant's calendar day */
+export function startOfDay(date: Date | string): Date {
+  const value = new Date(date)
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()))
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+export function shiftISODate(value: string, days: number): string {
+  return toISODate(addDays(parseISODate(value), days))
+}
+
+/** Same calendar day `years` years away; Feb 29 falls back to Feb 28 */
+export function shiftISODateByYears(value: string, years: number): string {
+  const date = parseISODate(value)
+  const shifted = new Date(Date.UTC(date.getUTCFullYear() + years, date.getUTCMonth(), 1))
+  const lastDayOfMonth = new Date(Date.UTC(shifted.getUTCFullYear(), shifted.getUTCMonth() + 1, 0)).getUTCDate()
+  shifted.setUTCDate(Math.min(date.getUTCDate(), lastDayOfMonth))
+  return toISODate(shifted)
+}
+
+/** Whole days from `from` to `to`; 0 when they are the same day */
+export function daysBetween(from: string, to: string): number {
+  return Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / DAY_MS)
+}
+
+export function eachDay(range: DateRange): string[] {
+  const days: string[] = []
+  for (let day = range.from; day <= range.to; day = shiftISODate(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+export function isWithinRange(value: string, range: DateRange): boolean {
+  return value >= range.from && value <= range.to
+}
+
+export function rangesOverlap(a: DateRange, b: DateRange): boolean {
+  return a.from <= b.to && b.from <= a.to
+}
+
+export function formatShortDate(value: string): string {
+  return parseISODate(value).toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })
+}
+
+export function formatDateRange(range: DateRange): string {
+  const sameYear = range.from.slice(0, 4) === range.to.slice(0, 4)
+  const withYear = (value: string) =>
+    parseISODate(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" })
+  return `${sameYear ? formatShortDate(range.from) : withYear(range.from)} – ${withYear(range.to)}`
+}
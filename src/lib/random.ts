@@ -0,0 +1,44 @@
+// Seedable pseudo-random number generation (mulberry32)
+
+export interface Random {
+  /** Float in [0, 1) */
+  next(): number
+  /** Float in [min, max) */
+  between(min: number, max: number): number
+  /** Integer in [min, max] */
+  int(min: number, max: number): number
+  pick<T>(items: readonly T[]): T
+}
+
+/** Folds strings and numbers into a 32-bit seed (FNV-1a), e.g. to derive independent streams from one seed */
+export function hashSeed(...parts: Array<string | number>): number {
+  let hash = 0x811c9dc5
+  for (const char of parts.join(":")) {
+    hash ^= char.charCodeAt(0)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000)
+}
+
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+
+  return {
+    next,
+    between: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: items => items[Math.floor(next() * items.length)],
+  }
+}
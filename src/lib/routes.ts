@@ -0,0 +1,7 @@
+export function campaignPath(id: string): string {
+  return `/campaigns/${encodeURIComponent(id)}`
+}
+
+export function clientPath(name: string): string {
+  return `/clients/${encodeURIComponent(name)}`
+}
@@ -0,0 +1,221 @@
+import { useMemo } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, Calendar, Coins, DollarSign, Eye, MousePointerClick, Percent, Receipt, Target, Wallet } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { MetricCardSkeleton, ChartSkeleton } from "@/components/ui/loading-skeleton";
+import { MetricCard } from "@/components/dashboard/MetricCard";
+import { InteractiveChart } from "@/components/dashboard/InteractiveChart";
+import { CampaignStatusBadge } from "@/components/dashboard/CampaignStatusBadge";
+import { buildCampaignMetrics } from "@/services/aggregations";
+import { campaignMetrics } from "@/services/performanceMetrics";
+import { daysBetween, formatDateRange } from "@/lib/dates";
+import { useCampaignData } from "@/hooks/use-dashboard-data";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value);
+
+const TRAILING_LABEL = "last 7 days vs prior 7";
+
+const CampaignDetail = () => {
+  const { id = '' } = useParams();
+  const { campaign, timeSeries, isLoading, isNotFound, error } = useCampaignData(id);
+
+  const metrics = useMemo(() => buildCampaignMetrics(timeSeries), [timeSeries]);
+  const delivered = useMemo(
+    () => timeSeries.filter(point => point.cumulativeSpend !== undefined),
+    [timeSeries]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background p-4 lg:p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="h-8 w-64 bg-muted rounded animate-pulse" />
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+            {Array.from({ length: 10 }).map((_, i) => (
+              <MetricCardSkeleton key={i} />
+            ))}
+          </div>
+          <ChartSkeleton height="h-80" />
+        </div>
+      </div>
+    );
+  }
+
+  if (!campaign) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <h1 className="text-2xl font-bold">
+            {isNotFound ? "Campaign not found" : "Unable to load campaign"}
+          </h1>
+          <p className="text-muted-foreground">
+            {isNotFound ? `There is no campaign with id "${id}".` : error?.message}
+          </p>
+          <Button asChild variant="outline">
+            <Link to="/">Back to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const flightDays = daysBetween(campaign.startDate, campaign.endDate) + 1;
+  const elapsedDays = Math.min(delivered.length, flightDays);
+  // Paced against the last delivered day, or today before any delivery
+  const budgetUse = campaignMetrics(campaign, delivered[delivered.length - 1]?.date);
+  const utilisation = budgetUse.utilisation ?? 0;
+  const pacing = budgetUse.pacing;
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div className="space-y-2">
+            <Button asChild variant="ghost" size="sm" className="gap-2 -ml-3">
+              <Link to="/">
+                <ArrowLeft className="h-4 w-4" />
+                Dashboard
+              </Link>
+            </Button>
+            <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+              {campaign.name}
+              <CampaignStatusBadge status={campaign.status} />
+            </h1>
+            <p className="text-muted-foreground">
+              {campaign.client} · <span className="font-mono">{campaign.id}</span>
+            </p>
+          </div>
+        </div>
+
+        {/* Flight & Budget */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Flight Dates
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="text-2xl font-bold">{formatDateRange({ from: campaign.startDate, to: campaign.endDate })}</div>
+              <Progress value={(elapsedDays / flightDays) * 100} className="h-2" />
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Day {elapsedDays} of {flightDays}</span>
+                <span>{Math.max(flightDays - elapsedDays, 0)} days remaining</span>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold flex items-center gap-2">
+                <Wallet className="h-5 w-5" />
+                Budget Pacing
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="text-2xl font-bold">
+                {formatCurrency(campaign.spent)}
+                <span className="text-base font-normal text-muted-foreground"> of {formatCurrency(campaign.budget)}</span>
+              </div>
+              <Progress value={Math.min(utilisation, 100)} className="h-2" />
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>{utilisation.toFixed(1)}% of budget spent</span>
+                <span>{pacing === null ? 'No spend planned yet' : `${pacing.toFixed(0)}% of planned spend to date`}</span>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Metrics Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <MetricCard title="Spend" data={metrics.spend} icon={<DollarSign className="h-5 w-5" />} format="currency" comparisonLabel={TRAILING_LABEL} />
+          <MetricCard title="Impressions" data={metrics.impressions} icon={<Eye className="h-5 w-5" />} format="number" comparisonLabel={TRAILING_LABEL} />
+          <MetricCard title="Clicks" data={metrics.clicks} icon={<MousePointerClick className="h-5 w-5" />} format="number" comparisonLabel={TRAILING_LABEL} />
+          <MetricCard title="Conversions" data={metrics.conversions} icon={<Target className="h-5 w-5" />} format="number" comparisonLabel={TRAILING_LABEL} />
+          <MetricCard title="CTR" data={metrics.ctr} icon={<Percent className="h-5 w-5" />} format="percentage" comparisonLabel={TRAILING_LABEL} />
+          <MetricCard title="CPC" data={metrics.cpc} icon={<DollarSign className="h-5 w-5" />} format="currency" comparisonLabel={TRAILING_LABEL} lowerIsBetter />
+          <MetricCard title="ROAS" data={metrics.roas} icon={<Coins className="h-5 w-5" />} format="ratio" comparisonLabel={TRAILING_LABEL} />
+          <MetricCard title="CPA" data={metrics.cpa} icon={<Receipt className="h-5 w-5" />} format="currency" comparisonLabel={TRAILING_LABEL} lowerIsBetter />
+          <MetricCard title="CPM" data={metrics.cpm} icon={<Eye className="h-5 w-5" />} format="currency" comparisonLabel={TRAILING_LABEL} lowerIsBetter />
+          <MetricCard title="Conversion Rate" data={metrics.conversionRate} icon={<Target className="h-5 w-5" />} format="percentage" comparisonLabel={TRAILING_LABEL} />
+        </div>
+
+        {/* Drill-down Charts */}
+        <InteractiveChart
+          title="Budget Pacing"
+          data={timeSeries}
+          type="line"
+          dataKeys={['cumulativeSpend', 'plannedSpend']}
+          colors={['hsl(var(--primary))', 'hsl(var(--muted-foreground))']}
+          height={300}
+        />
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <InteractiveChart
+            title="Daily Impressions"
+            data={delivered}
+            type="area"
+            dataKeys={['impressions']}
+            valueFormat="number"
+            height={260}
+          />
+          <InteractiveChart
+            title="Daily Clicks & Conversions"
+            data={delivered}
+            type="line"
+            dataKeys={['clicks', 'conversions']}
+            colors={['hsl(var(--success))', 'hsl(var(--warning))']}
+            valueFormat="number"
+            height={260}
+          />
+          <InteractiveChart
+            title="CTR History"
+            data={delivered}
+            type="line"
+            dataKeys={['ctr']}
+            colors={['hsl(var(--info))']}
+            valueFormat="percentage"
+            height={260}
+          />
+          <InteractiveChart
+            title="CPC History"
+            data={delivered}
+            type="line"
+            dataKeys={['cpc']}
+            colors={['hsl(var(--danger))']}
+            valueFormat="currency"
+            height={260}
+          />
+          <InteractiveChart
+            title="ROAS History"
+            data={delivered}
+            type="line"
+            dataKeys={['roas']}
+            colors={['hsl(var(--success))']}
+            valueFormat="ratio"
+            height={260}
+          />
+          <InteractiveChart
+            title="CPA History"
+            data={delivered}
+            type="line"
+            dataKeys={['cpa']}
+            colors={['hsl(var(--warning))']}
+            valueFormat="currency"
+            height={260}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CampaignDetail;
@@ -0,0 +1,116 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Building2 } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartSkeleton, TableSkeleton } from "@/components/ui/loading-skeleton";
+import { InteractiveChart } from "@/components/dashboard/InteractiveChart";
+import { DataTable } from "@/components/dashboard/DataTable";
+import { useClientData } from "@/hooks/use-dashboard-data";
+import { campaignPath } from "@/lib/routes";
+
+const formatCurrency = (value: number, fractionDigits = 0) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+
+const ClientDetail = () => {
+  const { name = '' } = useParams();
+  const navigate = useNavigate();
+  const { summary, campaigns, asOfDate, timeSeries, isLoading, error } = useClientData(name);
+
+  const header = (
+    <div className="space-y-2">
+      <Button asChild variant="ghost" size="sm" className="gap-2 -ml-3">
+        <Link to="/clients">
+          <ArrowLeft className="h-4 w-4" />
+          All clients
+        </Link>
+      </Button>
+      <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+        <Building2 className="h-8 w-8" />
+        {name}
+      </h1>
+    </div>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background p-4 lg:p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {header}
+          <ChartSkeleton height="h-72" />
+          <TableSkeleton />
+        </div>
+      </div>
+    );
+  }
+
+  if (!summary) {
+    return (
+      <div className="min-h-screen bg-background p-4 lg:p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          {header}
+          <p className="text-muted-foreground">
+            {error ? `Unable to load client: ${error.message}` : `No campaigns found for "${name}".`}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const stats = [
+    { label: "Budget", value: formatCurrency(summary.budget) },
+    { label: "Spent", value: formatCurrency(summary.spent), detail: `${((summary.spent / summary.budget) * 100).toFixed(1)}% of budget` },
+    { label: "Conversions", value: summary.conversions.toLocaleString() },
+    { label: "Blended CTR", value: `${summary.ctr.toFixed(2)}%` },
+    { label: "Blended CPC", value: formatCurrency(summary.cpc, 2) },
+    { label: "Blended CPA", value: formatCurrency(summary.cpa, 2) }
+  ];
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-end justify-between gap-4">
+          {header}
+          <p className="text-muted-foreground">
+            {summary.campaignCount} campaigns · {summary.activeCampaigns} active
+          </p>
+        </div>
+
+        {/* Client Totals */}
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          {stats.map(stat => (
+            <Card key={stat.label} className="border-border/50 bg-gradient-to-br from-card to-card/50">
+              <CardContent className="pt-6 space-y-1">
+                <div className="text-sm font-medium text-muted-foreground">{stat.label}</div>
+                <div className="text-xl font-bold text-foreground">{stat.value}</div>
+                {stat.detail && <div className="text-xs text-muted-foreground">{stat.detail}</div>}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <InteractiveChart
+          title="Spend Over Time"
+          data={timeSeries}
+          type="area"
+          dataKeys={['spend']}
+          valueFormat="currency"
+          height={280}
+        />
+
+        <DataTable
+          data={campaigns}
+          title={`${name} Campaigns`}
+          onRowClick={(campaign) => navigate(campaignPath(campaign.id))}
+          asOf={asOfDate}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ClientDetail;
@@ -0,0 +1,107 @@
+import { Link, useNavigate } from "react-router-dom";
+import { ArrowLeft, Building2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/ui/loading-skeleton";
+import { useClientsData } from "@/hooks/use-dashboard-data";
+import { clientPath } from "@/lib/routes";
+
+const formatCurrency = (value: number, fractionDigits = 0) =>
+  new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+
+const Clients = () => {
+  const navigate = useNavigate();
+  const { clients, isLoading, error } = useClientsData();
+
+  return (
+    <div className="min-h-screen bg-background p-4 lg:p-8">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="space-y-2">
+          <Button asChild variant="ghost" size="sm" className="gap-2 -ml-3">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4" />
+              Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            <Building2 className="h-8 w-8" />
+            Clients
+          </h1>
+          <p className="text-muted-foreground">
+            Lifetime totals across every campaign run for each advertiser
+          </p>
+        </div>
+
+        {isLoading ? (
+          <TableSkeleton />
+        ) : error ? (
+          <p className="text-danger">Unable to load clients: {error.message}</p>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg font-semibold">{clients.length} Clients</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-muted/50">
+                      <TableHead className="font-semibold min-w-[160px]">Client</TableHead>
+                      <TableHead className="font-semibold text-right">Campaigns</TableHead>
+                      <TableHead className="font-semibold text-right">Budget</TableHead>
+                      <TableHead className="font-semibold text-right">Spent</TableHead>
+                      <TableHead className="font-semibold text-right hidden md:table-cell">Conversions</TableHead>
+                      <TableHead className="font-semibold text-right hidden lg:table-cell">CTR</TableHead>
+                      <TableHead className="font-semibold text-right hidden lg:table-cell">CPC</TableHead>
+                      <TableHead className="font-semibold text-right hidden md:table-cell">CPA</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {clients.map(client => (
+                      <TableRow
+                        key={client.name}
+                        className="hover:bg-muted/30 transition-colors cursor-pointer"
+                        onClick={() => navigate(clientPath(client.name))}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') navigate(clientPath(client.name));
+                        }}
+                        tabIndex={0}
+                      >
+                        <TableCell className="font-semibold">{client.name}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {client.campaignCount}
+                          <div className="text-xs text-muted-foreground">{client.activeCampaigns} active</div>
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(client.budget)}</TableCell>
+                        <TableCell className="text-right font-mono">{formatCurrency(client.spent)}</TableCell>
+                        <TableCell className="text-right font-mono hidden md:table-cell">{client.conversions.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono hidden lg:table-cell">{client.ctr.toFixed(2)}%</TableCell>
+                        <TableCell className="text-right font-mono hidden lg:table-cell">{formatCurrency(client.cpc, 2)}</TableCell>
+                        <TableCell className="text-right font-mono hidden md:table-cell">{formatCurrency(client.cpa, 2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Clients;
@@ -1,73 +1,151 @@
-import { useState, useEffect } from "react";
-import { DollarSign, Users, Target, TrendingUp } from "lucide-react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { DollarSign, Users, Target, TrendingUp, Coins, Receipt, Eye, Percent } from "lucide-react";
 import { DashboardHeader } from "@/components/dashboard/DashboardHeader";
 import { MetricCard } from "@/components/dashboard/MetricCard";
 import { InteractiveChart } from "@/components/dashboard/InteractiveChart";
 import { DataTable } from "@/components/dashboard/DataTable";
 import { FilterPanel, FilterState } from "@/components/dashboard/FilterPanel";
+import { SavedViewsPanel } from "@/components/dashboard/SavedViewsPanel";
+import { ReportSubscriptionsDialog } from "@/components/dashboard/ReportSubscriptionsDialog";
+import { CampaignImportDialog } from "@/components/dashboard/CampaignImportDialog";
+import { CampaignFormDialog } from "@/components/dashboard/CampaignFormDialog";
+import { BulkActionConfirmDialog } from "@/components/dashboard/BulkActionConfirmDialog";
 import { MetricCardSkeleton, ChartSkeleton, TableSkeleton } from "@/components/ui/loading-skeleton";
-import { 
-  generateMetrics, 
-  generateLineChartData, 
-  generateBarChartData, 
-  generatePieChartData,
-  generateCampaignData,
-  MockDataService,
-  type MetricData,
-  type ChartDataPoint,
-  type CampaignData
-} from "@/services/mockData";
-import { ExportService } from "@/services/exportService";
+import { MockDataService, type CampaignData } from "@/services/mockData";
+import { CAMPAIGN_STATUS_LABELS, type CampaignChanges } from "@/services/campaignEditing";
+import { planBulkAction, type BulkAction, type BulkActionPlan } from "@/services/campaignBulkActions";
+import { DEFAULT_PAGE_SIZE, SCROLL_WINDOW_SIZE, type CampaignQuery } from "@/services/campaignQuery";
+import { describeComparison } from "@/services/filters";
+import { restoreViewState, type SavedView } from "@/services/savedViews";
+import { CHANNEL_SERIES, createDashboardReport, metricsExportTable, TREND_SERIES, trendChartTitle } from "@/services/report";
+import type { ExportSource } from "@/services/exportPipeline";
+import type { DateRange } from "@/lib/dates";
+import { campaignPath } from "@/lib/routes";
+import {
+  useCampaignPage,
+  useCampaignScroll,
+  useDashboardData,
+  useFilterFacets,
+  useLoadAllCampaigns,
+  useRefreshDashboard
+} from "@/hooks/use-dashboard-data";
+import { useDashboardViewState } from "@/hooks/use-dashboard-view-state";
+import { useSavedViews } from "@/hooks/use-saved-views";
+import { useExport } from "@/hooks/use-export";
+import { useCampaignImport } from "@/hooks/use-campaign-import";
+import { useCampaignMutations } from "@/hooks/use-campaign-mutations";
+import { useCampaignBulkActions } from "@/hooks/use-campaign-bulk-actions";
 import { useToast } from "@/hooks/use-toast";
 
 const Index = () => {
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(true);
-  const [isRealTimeActive, setIsRealTimeActive] = useState(false);
-  const [lastUpdated, setLastUpdated] = useState(new Date());
-  
+  const { exportAs } = useExport();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Filters, table state and the real-time toggle live in the URL so views can be shared
+  const [viewState, updateViewState] = useDashboardViewState();
+  const { filters, table: tableState, hiddenSeries, realTime: isRealTimeActive } = viewState;
+  const [isSchedulingReports, setIsSchedulingReports] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const { importedLabel, resetImport } = useCampaignImport();
+  // The form is open for a new campaign when `campaign` is undefined
+  const [campaignForm, setCampaignForm] = useState<{ campaign?: CampaignData } | null>(null);
+  const { updateCampaign, updatingId } = useCampaignMutations();
+  const [selectedCampaignIds, setSelectedCampaignIds] = useState<string[]>([]);
+  const [bulkPlan, setBulkPlan] = useState<BulkActionPlan | null>(null);
+  const { runBulkAction, pendingDeletionIds } = useCampaignBulkActions();
+  const { defaultView, isLoading: isLoadingViews } = useSavedViews();
+  // Only a plain visit opens the default view; shared links keep the state they carry
+  const openedWithoutState = useRef(location.search === '');
+
+  // Campaigns deleted in bulk are left out everywhere while the delete can still be undone
+  const reportedFilters = useMemo(
+    () => (pendingDeletionIds.length > 0 ? { ...filters, excludedCampaignIds: pendingDeletionIds } : filters),
+    [filters, pendingDeletionIds]
+  );
+
   // Data states
-  const [metrics, setMetrics] = useState<Record<string, MetricData>>({});
-  const [lineChartData, setLineChartData] = useState<ChartDataPoint[]>([]);
-  const [barChartData, setBarChartData] = useState<ChartDataPoint[]>([]);
-  const [pieChartData, setPieChartData] = useState<ChartDataPoint[]>([]);
-  const [campaignData, setCampaignData] = useState<CampaignData[]>([]);
-  const [filteredCampaignData, setFilteredCampaignData] = useState<CampaignData[]>([]);
+  const {
+    metrics,
+    timeSeries: lineChartData,
+    comparisonTimeSeries: comparisonLineChartData,
+    channels: barChartData,
+    adTypes: pieChartData,
+    campaigns: filteredCampaignData,
+    isLoading,
+    error,
+    dataUpdatedAt
+  } = useDashboardData(reportedFilters);
+  const filterFacets = useFilterFacets(reportedFilters);
+  const refreshDashboard = useRefreshDashboard();
+  const loadAllCampaigns = useLoadAllCampaigns();
+  // The table asks the data source for one page at a time, or while scrolling through
+  // every match for the windows of rows around the ones in view (only offered ungrouped)
+  const isScrollingCampaigns = tableState.pageSize === 'all' && tableState.groupBy === 'none';
+  const campaignQuery = useMemo<CampaignQuery>(() => ({
+    search: tableState.search,
+    filters: tableState.columnFilters,
+    sort: tableState.sort,
+    groupBy: tableState.groupBy,
+    page: isScrollingCampaigns ? 1 : tableState.page,
+    pageSize: tableState.pageSize !== 'all'
+      ? tableState.pageSize
+      : isScrollingCampaigns ? SCROLL_WINDOW_SIZE : DEFAULT_PAGE_SIZE
+  }), [
+    isScrollingCampaigns,
+    tableState.search,
+    tableState.columnFilters,
+    tableState.sort,
+    tableState.groupBy,
+    tableState.page,
+    tableState.pageSize
+  ]);
+  const {
+    page: campaignPage,
+    isFetching: isFetchingCampaignPage,
+    error: campaignPageError,
+    loadMatchingCampaigns
+  } = useCampaignPage(campaignQuery, reportedFilters);
+  const campaignScroll = useCampaignScroll(campaignQuery, reportedFilters, isScrollingCampaigns);
+  // Selected campaigns the filters now leave out are deselected
+  useEffect(() => {
+    const matching = new Set(filteredCampaignData.map(campaign => campaign.id));
+    setSelectedCampaignIds(current => {
+      const kept = current.filter(id => matching.has(id));
+      return kept.length === current.length ? current : kept;
+    });
+  }, [filteredCampaignData]);
+
+  const comparisonLabel = describeComparison(filters);
+  const lastUpdated = useMemo(() => new Date(dataUpdatedAt || Date.now()), [dataUpdatedAt]);
 
-  // Initialize data
   useEffect(() => {
-    const loadInitialData = async () => {
-      setIsLoading(true);
-      
-      // Simulate loading delay for skeleton effect
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      setMetrics(generateMetrics());
-      setLineChartData(generateLineChartData());
-      setBarChartData(generateBarChartData());
-      setPieChartData(generatePieChartData());
-      const campaigns = generateCampaignData();
-      setCampaignData(campaigns);
-      setFilteredCampaignData(campaigns);
-      setLastUpdated(new Date());
-      
-      setIsLoading(false);
-    };
+    const loadError = error ?? campaignPageError;
+    if (loadError) {
+      toast({
+        title: "Unable to load data",
+        description: loadError.message,
+        variant: "destructive",
+      });
+    }
+  }, [error, campaignPageError, toast]);
 
-    loadInitialData();
-  }, []);
+  useEffect(() => {
+    if (!openedWithoutState.current || isLoadingViews) return;
+    openedWithoutState.current = false;
+    if (defaultView) {
+      updateViewState(restoreViewState(defaultView.state), { replace: true });
+    }
+  }, [defaultView, isLoadingViews, updateViewState]);
 
   // Real-time updates
   useEffect(() => {
     const dataService = MockDataService.getInstance();
     
     if (isRealTimeActive) {
-      const cleanup = dataService.onUpdate(() => {
-        setMetrics(generateMetrics());
-        setLineChartData(generateLineChartData());
-        setBarChartData(generateBarChartData());
-        setPieChartData(generatePieChartData());
-        setLastUpdated(new Date());
+      const cleanup = dataService.onUpdate(async () => {
+        await refreshDashboard();
         
         toast({
           title: "Data Updated",
@@ -85,10 +163,10 @@ const Index = () => {
     } else {
       dataService.stopRealTimeUpdates();
     }
-  }, [isRealTimeActive, toast]);
+  }, [isRealTimeActive, refreshDashboard, toast]);
 
   const handleToggleRealTime = () => {
-    setIsRealTimeActive(!isRealTimeActive);
+    updateViewState({ realTime: !isRealTimeActive });
     toast({
       title: isRealTimeActive ? "Real-time Disabled" : "Real-time Enabled",
       description: isRealTimeActive 
@@ -98,80 +176,104 @@ const Index = () => {
     });
   };
 
-  const handleFiltersChange = (filters: FilterState) => {
-    let filtered = [...campaignData];
-    
-    // Apply client filter
-    if (filters.clients.length > 0) {
-      filtered = filtered.filter(campaign => 
-        filters.clients.includes(campaign.client)
-      );
-    }
-    
-    // Apply status filter
-    if (filters.status.length > 0) {
-      filtered = filtered.filter(campaign => 
-        filters.status.includes(campaign.status)
-      );
-    }
-    
-    // Apply budget range filter
-    filtered = filtered.filter(campaign => 
-      campaign.budget >= filters.budgetRange.min && 
-      campaign.budget <= filters.budgetRange.max
-    );
-    
-    // Apply date range filter
-    filtered = filtered.filter(campaign => {
-      const campaignStart = new Date(campaign.startDate);
-      const filterStart = new Date(filters.dateRange.from);
-      const filterEnd = new Date(filters.dateRange.to);
-      return campaignStart >= filterStart && campaignStart <= filterEnd;
+  // Imports are often past campaigns, which the default trailing range would leave out
+  const handleImported = (dateRange: DateRange) => {
+    updateViewState({ filters: { ...filters, dateRange }, table: { ...tableState, page: 1 } });
+  };
+
+  const handleResetImport = async () => {
+    await resetImport();
+    toast({
+      title: "Imported Data Cleared",
+      description: "The dashboard is showing its original data again",
+      duration: 3000,
     });
-    
-    setFilteredCampaignData(filtered);
   };
 
-  const handleExportPDF = async () => {
+  const handleCampaignStatusChange = async (campaign: CampaignData, status: CampaignData['status']) => {
     try {
+      await updateCampaign({ id: campaign.id, changes: { status } });
       toast({
-        title: "Exporting PDF...",
-        description: "Please wait while we generate your report",
-      });
-      
-      await ExportService.exportToPDF('dashboard-container', 'ad-agency-dashboard.pdf');
-      
-      toast({
-        title: "Export Successful",
-        description: "Dashboard exported as PDF",
+        title: "Campaign Updated",
+        description: `${campaign.name} is now ${CAMPAIGN_STATUS_LABELS[status].toLowerCase()}`,
         duration: 3000,
       });
     } catch (error) {
       toast({
-        title: "Export Failed",
-        description: "Unable to export PDF. Please try again.",
+        title: "Unable to update campaign",
+        description: error instanceof Error ? error.message : "Something went wrong",
         variant: "destructive",
       });
     }
   };
 
-  const handleExportMetricsCSV = () => {
+  // The table shows the edit at once; a rejected edit is rolled back and explained here
+  const handleCampaignCellEdit = async (campaign: CampaignData, changes: CampaignChanges) => {
     try {
-      ExportService.exportMetricsToCSV(metrics, 'dashboard-metrics.csv');
+      await updateCampaign({ id: campaign.id, changes });
+    } catch (error) {
       toast({
-        title: "Export Successful",
-        description: "Metrics exported as CSV",
-        duration: 3000,
+        title: `Change to ${campaign.name} was undone`,
+        description: error instanceof Error ? error.message : "Something went wrong",
+        variant: "destructive",
       });
+    }
+  };
+
+  // Bulk actions use the campaigns as last fetched, not the rows the table saw them as
+  const currentCampaigns = (campaigns: CampaignData[]) => {
+    const ids = new Set(campaigns.map(campaign => campaign.id));
+    return filteredCampaignData.filter(campaign => ids.has(campaign.id));
+  };
+
+  const handleBulkAction = (campaigns: CampaignData[], action: BulkAction) => {
+    try {
+      setBulkPlan(planBulkAction(currentCampaigns(campaigns), action));
     } catch (error) {
       toast({
-        title: "Export Failed",
-        description: "Unable to export CSV. Please try again.",
+        title: "Bulk action",
+        description: error instanceof Error ? error.message : "Something went wrong",
         variant: "destructive",
       });
     }
   };
 
+  const handleConfirmBulkAction = (plan: BulkActionPlan) => {
+    setBulkPlan(null);
+    setSelectedCampaignIds([]);
+    // Campaigns may have changed while the dialog was open
+    const planned = [...plan.updates.map(({ campaign }) => campaign), ...plan.deletions, ...plan.skipped.map(({ campaign }) => campaign)];
+    runBulkAction(planBulkAction(currentCampaigns(planned), plan.action));
+  };
+
+  const handleFiltersChange = (newFilters: FilterState) => {
+    // The table's page refers to the old result set
+    updateViewState({ filters: newFilters, table: { ...tableState, page: 1 } });
+  };
+
+  const handleApplyView = (view: SavedView) => {
+    updateViewState(restoreViewState(view.state));
+  };
+
+  const handleHiddenSeriesChange = (chart: string) => (keys: string[]) => {
+    updateViewState({ hiddenSeries: { ...hiddenSeries, [chart]: keys } });
+  };
+
+  // The figures currently on screen, for the PDF and workbook exports
+  const buildReport = () => createDashboardReport(filters, {
+    metrics,
+    timeSeries: lineChartData,
+    channels: barChartData,
+    adTypes: pieChartData,
+    campaigns: filteredCampaignData
+  }, { hiddenSeries });
+
+  const reportSource: ExportSource = { name: 'Ad Agency Dashboard', report: buildReport };
+  const metricsSource: ExportSource = {
+    name: 'Dashboard Metrics',
+    table: () => metricsExportTable(buildReport().metrics, comparisonLabel)
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background p-4 lg:p-8">
@@ -191,7 +293,7 @@ const Index = () => {
             {/* Metrics Cards Skeleton */}
             <div className="col-span-full lg:col-span-8">
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
-                {Array.from({ length: 4 }).map((_, i) => (
+                {Array.from({ length: 8 }).map((_, i) => (
                   <MetricCardSkeleton key={i} />
                 ))}
               </div>
@@ -230,6 +332,9 @@ const Index = () => {
             isRealTimeActive={isRealTimeActive}
             onToggleRealTime={handleToggleRealTime}
             lastUpdated={lastUpdated}
+            onImport={() => setIsImporting(true)}
+            importedLabel={importedLabel}
+            onResetImport={handleResetImport}
           />
 
           {/* Main Content Area */}
@@ -241,35 +346,73 @@ const Index = () => {
                 data={metrics.revenue}
                 icon={<DollarSign className="h-5 w-5" />}
                 format="currency"
+                comparisonLabel={comparisonLabel}
               />
               <MetricCard
                 title="Active Users"
                 data={metrics.users}
                 icon={<Users className="h-5 w-5" />}
                 format="number"
+                comparisonLabel={comparisonLabel}
               />
               <MetricCard
                 title="Conversions"
                 data={metrics.conversions}
                 icon={<Target className="h-5 w-5" />}
                 format="number"
+                comparisonLabel={comparisonLabel}
               />
               <MetricCard
                 title="Growth Rate"
                 data={metrics.growth}
                 icon={<TrendingUp className="h-5 w-5" />}
                 format="percentage"
+                comparisonLabel={comparisonLabel}
+              />
+              <MetricCard
+                title="ROAS"
+                data={metrics.roas}
+                icon={<Coins className="h-5 w-5" />}
+                format="ratio"
+                comparisonLabel={comparisonLabel}
+              />
+              <MetricCard
+                title="CPA"
+                data={metrics.cpa}
+                icon={<Receipt className="h-5 w-5" />}
+                format="currency"
+                comparisonLabel={comparisonLabel}
+                lowerIsBetter
+              />
+              <MetricCard
+                title="CPM"
+                data={metrics.cpm}
+                icon={<Eye className="h-5 w-5" />}
+                format="currency"
+                comparisonLabel={comparisonLabel}
+                lowerIsBetter
+              />
+              <MetricCard
+                title="Conversion Rate"
+                data={metrics.conversionRate}
+                icon={<Percent className="h-5 w-5" />}
+                format="percentage"
+                comparisonLabel={comparisonLabel}
               />
             </div>
 
             {/* Primary Chart - Line Chart */}
             <InteractiveChart
-              title="Revenue Trend (30 Days)"
+              title={trendChartTitle(filters)}
               data={lineChartData}
               type="line"
-              dataKeys={['revenue', 'users', 'conversions']}
+              dataKeys={TREND_SERIES}
               colors={['hsl(var(--primary))', 'hsl(var(--success))', 'hsl(var(--warning))']}
               height={320}
+              comparisonData={comparisonLineChartData}
+              comparisonLabel={comparisonLabel.replace(/^vs /, '')}
+              hiddenSeries={hiddenSeries.trend}
+              onHiddenSeriesChange={handleHiddenSeriesChange('trend')}
             />
 
             {/* Secondary Charts */}
@@ -278,9 +421,11 @@ const Index = () => {
                 title="Performance by Channel"
                 data={barChartData}
                 type="bar"
-                dataKeys={['value', 'conversions']}
+                dataKeys={CHANNEL_SERIES}
                 colors={['hsl(var(--primary))', 'hsl(var(--success))']}
                 height={280}
+                hiddenSeries={hiddenSeries.channels}
+                onHiddenSeriesChange={handleHiddenSeriesChange('channels')}
               />
               <InteractiveChart
                 title="Ad Type Distribution"
@@ -293,18 +438,60 @@ const Index = () => {
 
           {/* Sidebar - Filter Panel */}
           <FilterPanel
+            filters={filters}
             onFiltersChange={handleFiltersChange}
-            onExportPDF={handleExportPDF}
-            onExportMetricsCSV={handleExportMetricsCSV}
+            onExportPDF={() => exportAs(reportSource, 'pdf')}
+            onExportXLSX={() => exportAs(reportSource, 'xlsx')}
+            onExportMetricsCSV={() => exportAs(metricsSource, 'csv')}
+            onScheduleReports={() => setIsSchedulingReports(true)}
+            facets={filterFacets}
+            savedViews={<SavedViewsPanel viewState={viewState} onApplyView={handleApplyView} />}
           />
 
           {/* Data Table */}
           <DataTable
-            data={filteredCampaignData}
+            server={{
+              page: campaignPage,
+              isFetching: isFetchingCampaignPage || campaignScroll.isFetching,
+              loadMatching: loadMatchingCampaigns,
+              scroll: { rows: campaignScroll.rows, onRowsInView: campaignScroll.showRows }
+            }}
             title="Campaign Performance Data"
+            onRowClick={(campaign) => navigate(campaignPath(campaign.id))}
+            loadAllCampaigns={loadAllCampaigns}
+            state={tableState}
+            onStateChange={(table, options) => updateViewState({ table }, options)}
+            clients={filterFacets.clients.map(option => option.value)}
+            onCreateCampaign={() => setCampaignForm({})}
+            onEditCampaign={(campaign) => setCampaignForm({ campaign })}
+            onStatusChange={handleCampaignStatusChange}
+            onCellEdit={handleCampaignCellEdit}
+            updatingId={updatingId}
+            onBulkAction={handleBulkAction}
+            selectedIds={selectedCampaignIds}
+            onSelectionChange={setSelectedCampaignIds}
+            asOf={filters.dateRange.to}
           />
         </div>
       </div>
+
+      <ReportSubscriptionsDialog
+        open={isSchedulingReports}
+        onOpenChange={setIsSchedulingReports}
+        viewState={viewState}
+      />
+      <CampaignImportDialog open={isImporting} onOpenChange={setIsImporting} onImported={handleImported} />
+      <CampaignFormDialog
+        open={campaignForm !== null}
+        onOpenChange={(open) => !open && setCampaignForm(null)}
+        campaign={campaignForm?.campaign}
+        clients={filterFacets.clients.map(option => option.value)}
+      />
+      <BulkActionConfirmDialog
+        plan={bulkPlan}
+        onConfirm={handleConfirmBulkAction}
+        onCancel={() => setBulkPlan(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,341 @@
+// Aggregations over daily campaign stats. The KPI cards, charts and campaign
+// table all go through these so their numbers always add up to each other.
+
+import { daysBetween, eachDay, formatShortDate, isWithinRange, shiftISODate, toISODate, type DateRange } from '@/lib/dates';
+import type { CampaignDailyStat, CampaignData, ChartDataPoint, ClientSummary, MetricData } from './mockData';
+import { performanceMetrics, plannedSpend, type PerformanceMetricId } from './performanceMetrics';
+
+export interface DeliveryTotals {
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  revenue: number;
+}
+
+/** Sums over a set of campaigns, with CTR and CPC blended from the summed figures */
+export interface CampaignTotals {
+  campaignCount: number;
+  budget: number;
+  spent: number;
+  revenue: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  /** Total clicks / total impressions, as a percentage */
+  ctr: number;
+  /** Total spend / total clicks */
+  cpc: number;
+  /** Spend the campaigns' budgets planned by the totals' date, for pacing */
+  plannedSpend: number;
+}
+
+export const REPORTING_DAYS = 30;
+
+const emptyTotals = (): DeliveryTotals => ({ impressions: 0, clicks: 0, conversions: 0, spend: 0, revenue: 0 });
+
+const addTo = (totals: DeliveryTotals, event: DeliveryTotals): DeliveryTotals => {
+  totals.impressions += event.impressions;
+  totals.clicks += event.clicks;
+  totals.conversions += event.conversions;
+  totals.spend += event.spend;
+  totals.revenue += event.revenue;
+  return totals;
+};
+
+const percentChange = (current: number, previous: number): number =>
+  previous === 0 ? (current === 0 ? 0 : 100) : ((current - previous) / previous) * 100;
+
+const toMetric = (value: number, change: number): MetricData => ({
+  value,
+  change,
+  trend: change > 0 ? 'up' : change < 0 ? 'down' : 'neutral'
+});
+
+// Metrics without a denominator are left off chart points so lines break rather than drop to zero
+const performanceSeries = (totals: DeliveryTotals): Pick<ChartDataPoint, PerformanceMetricId> => {
+  const { cpa, roas, cpm, conversionRate } = performanceMetrics(totals);
+  return { cpa: cpa ?? undefined, roas: roas ?? undefined, cpm: cpm ?? undefined, conversionRate: conversionRate ?? undefined };
+};
+
+// KPI cards for each performance metric, changing from `previous` to `current`; the value shown
+// is `shown`'s where it differs, e.g. lifetime values with trailing change. Undefined metrics count as zero
+const performanceCards = (
+  current: DeliveryTotals,
+  previous: DeliveryTotals,
+  shown: DeliveryTotals = current
+): Record<PerformanceMetricId, MetricData> => {
+  const now = performanceMetrics(current);
+  const before = performanceMetrics(previous);
+  const values = performanceMetrics(shown);
+  const card = (metric: PerformanceMetricId) =>
+    toMetric(values[metric] ?? 0, percentChange(now[metric] ?? 0, before[metric] ?? 0));
+  return { cpa: card('cpa'), roas: card('roas'), cpm: card('cpm'), conversionRate: card('conversionRate') };
+};
+
+/** The last `days` days up to and including `anchorDate` */
+export const reportingRange = (anchorDate: string, days: number = REPORTING_DAYS): DateRange => ({
+  from: shiftISODate(anchorDate, -(days - 1)),
+  to: anchorDate
+});
+
+/** The equally long range immediately before `range` */
+export const previousRange = (range: DateRange): DateRange => {
+  const length = daysBetween(range.from, range.to) + 1;
+  return {
+    from: shiftISODate(range.from, -length),
+    to: shiftISODate(range.from, -1)
+  };
+};
+
+export const sumEvents = (events: CampaignDailyStat[]): DeliveryTotals =>
+  events.reduce(addTo, emptyTotals());
+
+export const filterEventsByRange = (events: CampaignDailyStat[], range: DateRange): CampaignDailyStat[] =>
+  events.filter(event => isWithinRange(event.date, range));
+
+export const filterEventsByCampaigns = (events: CampaignDailyStat[], campaignIds: Iterable<string>): CampaignDailyStat[] => {
+  const ids = new Set(campaignIds);
+  return events.filter(event => ids.has(event.campaignId));
+};
+
+const groupTotals = (events: CampaignDailyStat[], keyOf: (event: CampaignDailyStat) => string): Map<string, DeliveryTotals> => {
+  const groups = new Map<string, DeliveryTotals>();
+  for (const event of events) {
+    const key = keyOf(event);
+    groups.set(key, addTo(groups.get(key) ?? emptyTotals(), event));
+  }
+  return groups;
+};
+
+/** Replaces each campaign's delivery figures (spent, impressions, clicks, conversions, revenue, ctr, cpc) with the sums of its events */
+export const summarizeCampaigns = (campaigns: CampaignData[], events: CampaignDailyStat[]): CampaignData[] => {
+  const totalsByCampaign = groupTotals(events, event => event.campaignId);
+
+  return campaigns.map(campaign => {
+    const totals = totalsByCampaign.get(campaign.id) ?? emptyTotals();
+    return {
+      ...campaign,
+      spent: totals.spend,
+      impressions: totals.impressions,
+      clicks: totals.clicks,
+      conversions: totals.conversions,
+      revenue: totals.revenue,
+      ctr: totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0,
+      cpc: totals.clicks > 0 ? totals.spend / totals.clicks : 0
+    };
+  });
+};
+
+/**
+ * KPI cards for `range`, with change measured against `comparedRange` (by default the
+ * preceding period of equal length). Users are counted as site visits (clicks); growth is
+ * revenue growth over the compared range, and its change is the difference from the
+ * compared range's own growth.
+ */
+export const buildMetrics = (
+  events: CampaignDailyStat[],
+  range: DateRange,
+  comparedRange: DateRange = previousRange(range)
+): Record<string, MetricData> => {
+  const current = sumEvents(filterEventsByRange(events, range));
+  const previous = sumEvents(filterEventsByRange(events, comparedRange));
+  const earlier = sumEvents(filterEventsByRange(events, previousRange(comparedRange)));
+
+  const growth = percentChange(current.revenue, previous.revenue);
+  const previousGrowth = percentChange(previous.revenue, earlier.revenue);
+
+  return {
+    revenue: toMetric(current.revenue, percentChange(current.revenue, previous.revenue)),
+    users: toMetric(current.clicks, percentChange(current.clicks, previous.clicks)),
+    conversions: toMetric(current.conversions, percentChange(current.conversions, previous.conversions)),
+    growth: toMetric(growth, growth - previousGrowth),
+    ...performanceCards(current, previous)
+  };
+};
+
+/** One point per day of `range`, including days without delivery */
+export const buildTimeSeries = (events: CampaignDailyStat[], range: DateRange): ChartDataPoint[] => {
+  const totalsByDay = groupTotals(filterEventsByRange(events, range), event => event.date);
+
+  return eachDay(range).map(date => {
+    const totals = totalsByDay.get(date) ?? emptyTotals();
+    return {
+      name: formatShortDate(date),
+      date,
+      value: totals.revenue,
+      revenue: totals.revenue,
+      users: totals.clicks,
+      conversions: totals.conversions,
+      clicks: totals.clicks,
+      impressions: totals.impressions,
+      spend: totals.spend,
+      ...performanceSeries(totals)
+    };
+  });
+};
+
+/**
+ * One point per day of a campaign's flight. Delivery and cumulative spend stop at
+ * `throughDate` (the data's "today"); planned spend runs to the end date so pacing
+ * can be read against it.
+ */
+export const buildCampaignTimeSeries = (
+  campaign: CampaignData,
+  events: CampaignDailyStat[],
+  throughDate: string
+): ChartDataPoint[] => {
+  const totalsByDay = groupTotals(filterEventsByCampaigns(events, [campaign.id]), event => event.date);
+  let cumulativeSpend = 0;
+
+  return eachDay({ from: campaign.startDate, to: campaign.endDate }).map(date => {
+    const planned = plannedSpend(campaign, date);
+    if (date > throughDate) {
+      return { name: formatShortDate(date), date, plannedSpend: planned };
+    }
+
+    const totals = totalsByDay.get(date) ?? emptyTotals();
+    cumulativeSpend += totals.spend;
+    return {
+      name: formatShortDate(date),
+      date,
+      value: totals.spend,
+      impressions: totals.impressions,
+      clicks: totals.clicks,
+      conversions: totals.conversions,
+      spend: totals.spend,
+      revenue: totals.revenue,
+      ctr: totals.impressions > 0 ? (totals.clicks / totals.impressions) * 100 : 0,
+      cpc: totals.clicks > 0 ? totals.spend / totals.clicks : 0,
+      ...performanceSeries(totals),
+      cumulativeSpend,
+      plannedSpend: planned
+    };
+  });
+};
+
+/**
+ * KPI cards for one campaign from its daily series: lifetime values, with change
+ * measured over the last `days` delivered days against the `days` before them.
+ */
+export const buildCampaignMetrics = (series: ChartDataPoint[], days: number = 7): Record<string, MetricData> => {
+  const delivered = series.filter(point => point.cumulativeSpend !== undefined);
+  const total = (points: ChartDataPoint[], key: 'impressions' | 'clicks' | 'conversions' | 'spend' | 'revenue') =>
+    points.reduce((sum, point) => sum + (point[key] ?? 0), 0);
+  const delivery = (points: ChartDataPoint[]): DeliveryTotals => ({
+    impressions: total(points, 'impressions'),
+    clicks: total(points, 'clicks'),
+    conversions: total(points, 'conversions'),
+    spend: total(points, 'spend'),
+    revenue: total(points, 'revenue')
+  });
+  const ratios = (points: ChartDataPoint[]) => {
+    const impressions = total(points, 'impressions');
+    const clicks = total(points, 'clicks');
+    return {
+      ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+      cpc: clicks > 0 ? total(points, 'spend') / clicks : 0
+    };
+  };
+
+  const recent = delivered.slice(-days);
+  const before = delivered.slice(-days * 2, -days);
+  const changeOf = (key: 'impressions' | 'clicks' | 'conversions' | 'spend') =>
+    percentChange(total(recent, key), total(before, key));
+
+  const lifetime = ratios(delivered);
+  const recentRatios = ratios(recent);
+  const beforeRatios = ratios(before);
+
+  return {
+    spend: toMetric(total(delivered, 'spend'), changeOf('spend')),
+    impressions: toMetric(total(delivered, 'impressions'), changeOf('impressions')),
+    clicks: toMetric(total(delivered, 'clicks'), changeOf('clicks')),
+    conversions: toMetric(total(delivered, 'conversions'), changeOf('conversions')),
+    ctr: toMetric(lifetime.ctr, percentChange(recentRatios.ctr, beforeRatios.ctr)),
+    cpc: toMetric(lifetime.cpc, percentChange(recentRatios.cpc, beforeRatios.cpc)),
+    ...performanceCards(delivery(recent), delivery(before), delivery(delivered))
+  };
+};
+
+/** Revenue (value), conversions and clicks per channel. Listed channels always appear, even without delivery */
+export const buildChannelBreakdown = (events: CampaignDailyStat[], channels: string[] = []): ChartDataPoint[] => {
+  const totalsByChannel = groupTotals(events, event => event.channel);
+  const names = [...channels, ...[...totalsByChannel.keys()].filter(channel => !channels.includes(channel))];
+
+  return names.map(channel => {
+    const totals = totalsByChannel.get(channel) ?? emptyTotals();
+    return {
+      name: channel,
+      value: totals.revenue,
+      conversions: totals.conversions,
+      clicks: totals.clicks,
+      impressions: totals.impressions,
+      spend: totals.spend,
+      ...performanceSeries(totals)
+    };
+  });
+};
+
+/** Share of spend (percent) per ad type */
+export const buildAdTypeMix = (events: CampaignDailyStat[]): ChartDataPoint[] => {
+  const totalsByAdType = groupTotals(events, event => event.adType);
+  const totalSpend = sumEvents(events).spend;
+
+  return [...totalsByAdType.entries()]
+    .map(([adType, totals]) => ({
+      name: adType,
+      value: totalSpend > 0 ? (totals.spend / totalSpend) * 100 : 0,
+      spend: totals.spend
+    }))
+    .sort((a, b) => b.value - a.value);
+};
+
+/** Sums over `campaigns`, with planned spend up to `asOf` (today unless given) */
+export const totalCampaigns = (campaigns: CampaignData[], asOf: string = toISODate(new Date())): CampaignTotals => {
+  const sum = (key: 'budget' | 'spent' | 'revenue' | 'impressions' | 'clicks' | 'conversions') =>
+    campaigns.reduce((total, campaign) => total + campaign[key], 0);
+  const spent = sum('spent');
+  const impressions = sum('impressions');
+  const clicks = sum('clicks');
+
+  return {
+    campaignCount: campaigns.length,
+    budget: sum('budget'),
+    spent,
+    revenue: sum('revenue'),
+    impressions,
+    clicks,
+    conversions: sum('conversions'),
+    ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+    cpc: clicks > 0 ? spent / clicks : 0,
+    plannedSpend: campaigns.reduce((total, campaign) => total + plannedSpend(campaign, asOf), 0)
+  };
+};
+
+/** Per-client totals with blended CTR/CPC/CPA, largest spend first */
+export const summarizeClients = (campaigns: CampaignData[]): ClientSummary[] => {
+  const byClient = new Map<string, CampaignData[]>();
+  for (const campaign of campaigns) {
+    byClient.set(campaign.client, [...(byClient.get(campaign.client) ?? []), campaign]);
+  }
+
+  return [...byClient.entries()]
+    .map(([name, clientCampaigns]) => {
+      const { campaignCount, budget, spent, revenue, impressions, clicks, conversions, ctr, cpc } = totalCampaigns(clientCampaigns);
+      return {
+        name,
+        campaignCount,
+        activeCampaigns: clientCampaigns.filter(campaign => campaign.status === 'active').length,
+        budget,
+        spent,
+        impressions,
+        clicks,
+        conversions,
+        ctr,
+        cpc,
+        cpa: performanceMetrics({ spend: spent, revenue, impressions, clicks, conversions }).cpa ?? 0
+      };
+    })
+    .sort((a, b) => b.spent - a.spent);
+};
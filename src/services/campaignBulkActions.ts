@@ -0,0 +1,138 @@
+// Bulk campaign actions: what an action would change on each selected campaign, which
+// campaigns it skips and why, and the totals the confirmation dialog summarises. The
+// plan also records each campaign's previous values so the action can be undone.
+
+import { CAMPAIGN_STATUS_LABELS, type CampaignChanges } from './campaignEditing';
+import type { CampaignData } from './mockData';
+
+export type BudgetAdjustmentMode = 'amount' | 'percent';
+
+export type BulkAction =
+  | { type: 'status'; status: CampaignData['status'] }
+  /** Adds `value` dollars or `value` percent to each budget; negative values reduce it */
+  | { type: 'budget'; mode: BudgetAdjustmentMode; value: number }
+  | { type: 'client'; client: string }
+  | { type: 'delete' };
+
+export interface BulkUpdate {
+  campaign: CampaignData;
+  changes: CampaignChanges;
+  /** The values `changes` replace, applied again on undo */
+  previous: CampaignChanges;
+}
+
+export interface BulkSkip {
+  campaign: CampaignData;
+  reason: string;
+}
+
+export interface BulkActionPlan {
+  action: BulkAction;
+  /** Campaigns the action changes; empty for deletes */
+  updates: BulkUpdate[];
+  /** Campaigns a delete removes; empty for other actions */
+  deletions: CampaignData[];
+  skipped: BulkSkip[];
+  /** Total budget of the affected campaigns before and after the action */
+  budgetBefore: number;
+  budgetAfter: number;
+  /** Spend already delivered by the affected campaigns */
+  spent: number;
+}
+
+export class BulkActionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BulkActionError';
+  }
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const formatMoney = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+const adjustedBudget = (budget: number, mode: BudgetAdjustmentMode, value: number) =>
+  roundCents(mode === 'amount' ? budget + value : budget * (1 + value / 100));
+
+// What an edit changes on one campaign, or why it leaves the campaign alone
+const planCampaign = (campaign: CampaignData, action: Exclude<BulkAction, { type: 'delete' }>): Omit<BulkUpdate, 'campaign'> | string => {
+  switch (action.type) {
+    case 'status':
+      if (campaign.status === action.status) return `already ${CAMPAIGN_STATUS_LABELS[action.status].toLowerCase()}`;
+      return { changes: { status: action.status }, previous: { status: campaign.status } };
+    case 'budget': {
+      const budget = adjustedBudget(campaign.budget, action.mode, action.value);
+      if (budget === campaign.budget) return 'budget unchanged';
+      if (budget <= 0) return 'budget would drop to zero';
+      if (budget < campaign.spent) return `budget would fall below the ${formatMoney(campaign.spent)} spent`;
+      return { changes: { budget }, previous: { budget: campaign.budget } };
+    }
+    case 'client':
+    default:
+      if (campaign.client === action.client) return `already assigned to ${action.client}`;
+      return { changes: { client: action.client }, previous: { client: campaign.client } };
+  }
+};
+
+/** Throws a BulkActionError when the action itself is incomplete, e.g. a reassignment without a client */
+export const planBulkAction = (campaigns: CampaignData[], action: BulkAction): BulkActionPlan => {
+  if (action.type === 'budget' && (!Number.isFinite(action.value) || action.value === 0)) {
+    throw new BulkActionError('Enter a non-zero budget adjustment');
+  }
+  if (action.type === 'client' && !action.client.trim()) {
+    throw new BulkActionError('Enter the client to assign');
+  }
+  const normalised: BulkAction = action.type === 'client' ? { ...action, client: action.client.trim() } : action;
+
+  if (normalised.type === 'delete') {
+    return {
+      action: normalised,
+      updates: [],
+      deletions: campaigns,
+      skipped: [],
+      budgetBefore: campaigns.reduce((sum, campaign) => sum + campaign.budget, 0),
+      budgetAfter: 0,
+      spent: campaigns.reduce((sum, campaign) => sum + campaign.spent, 0)
+    };
+  }
+
+  const updates: BulkUpdate[] = [];
+  const skipped: BulkSkip[] = [];
+  campaigns.forEach(campaign => {
+    const planned = planCampaign(campaign, normalised);
+    if (typeof planned === 'string') {
+      skipped.push({ campaign, reason: planned });
+    } else {
+      updates.push({ campaign, ...planned });
+    }
+  });
+
+  return {
+    action: normalised,
+    updates,
+    deletions: [],
+    skipped,
+    budgetBefore: updates.reduce((sum, { campaign }) => sum + campaign.budget, 0),
+    budgetAfter: updates.reduce((sum, { campaign, changes }) => sum + (changes.budget ?? campaign.budget), 0),
+    spent: updates.reduce((sum, { campaign }) => sum + campaign.spent, 0)
+  };
+};
+
+/** e.g. "Set status to Paused", used as the confirmation title and in the undo toast */
+export const describeBulkAction = (action: BulkAction): string => {
+  switch (action.type) {
+    case 'status':
+      return `Set status to ${CAMPAIGN_STATUS_LABELS[action.status]}`;
+    case 'budget': {
+      const sign = action.value > 0 ? '+' : '−';
+      const amount = action.mode === 'amount' ? formatMoney(Math.abs(action.value)) : `${Math.abs(action.value)}%`;
+      return `Adjust budget by ${sign}${amount}`;
+    }
+    case 'client':
+      return `Reassign to ${action.client}`;
+    case 'delete':
+    default:
+      return 'Delete campaigns';
+  }
+};
@@ -0,0 +1,123 @@
+// Campaign editing: the fields a campaign is created or edited with, the rules they are
+// checked against (shared by the form and the data sources) and the status actions
+// offered on each row.
+
+import { z } from 'zod';
+import { CAMPAIGN_STATUSES, type CampaignData } from './mockData';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Rules for a campaign that has already spent `spent`: its budget may not drop below
+ * what it has spent, and its flight must end on or after the day it starts.
+ */
+export const createCampaignSchema = (spent: number = 0) =>
+  z
+    .object({
+      name: z.string().trim().min(1, 'A campaign needs a name').max(120, 'Keep the name under 120 characters'),
+      client: z.string().trim().min(1, 'Choose or enter a client'),
+      budget: z.coerce
+        .number({ invalid_type_error: 'Budget must be a number' })
+        .positive('Budget must be more than zero')
+        .refine(budget => budget >= spent, `Budget cannot be less than the ${spent.toFixed(2)} already spent`),
+      startDate: z.string().regex(ISO_DATE, 'Choose a start date'),
+      endDate: z.string().regex(ISO_DATE, 'Choose an end date'),
+      status: z.enum(CAMPAIGN_STATUSES as [CampaignData['status'], ...CampaignData['status'][]])
+    })
+    .refine(campaign => campaign.endDate >= campaign.startDate, {
+      message: 'End date must be on or after the start date',
+      path: ['endDate']
+    });
+
+// Declared rather than inferred from the schema, which loses required keys without strict null checks
+export interface CampaignInput {
+  name: string;
+  client: string;
+  budget: number;
+  startDate: string;
+  endDate: string;
+  status: CampaignData['status'];
+}
+
+export type CampaignChanges = Partial<CampaignInput>;
+
+export class CampaignValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CampaignValidationError';
+  }
+}
+
+/** Trims and checks `input`; throws a CampaignValidationError listing every problem */
+export const validateCampaignInput = (input: CampaignInput, spent: number = 0): CampaignInput => {
+  const result = createCampaignSchema(spent).safeParse(input);
+  if (!result.success) {
+    throw new CampaignValidationError(result.error.issues.map(issue => issue.message).join('; '));
+  }
+  return result.data as CampaignInput;
+};
+
+/** The editable fields of an existing campaign, e.g. to prefill the edit form */
+export const toCampaignInput = ({ name, client, budget, startDate, endDate, status }: CampaignData): CampaignInput =>
+  ({ name, client, budget, startDate, endDate, status });
+
+/** Fields the campaign table edits in place, one cell at a time */
+export const INLINE_EDITABLE_FIELDS = ['budget', 'status', 'startDate', 'endDate'] as const;
+
+export type InlineEditableField = typeof INLINE_EDITABLE_FIELDS[number];
+
+export const isInlineEditable = (field: string): field is InlineEditableField =>
+  (INLINE_EDITABLE_FIELDS as readonly string[]).includes(field);
+
+/** What is wrong with applying `changes` to `campaign`, or null when the result is valid */
+export const campaignChangesError = (campaign: CampaignData, changes: CampaignChanges): string | null => {
+  const result = createCampaignSchema(campaign.spent).safeParse({ ...toCampaignInput(campaign), ...changes });
+  return result.success ? null : result.error.issues.map(issue => issue.message).join('; ');
+};
+
+export type InlineEditDependency = InlineEditableField | 'spent';
+
+/**
+ * The fields an in-place edit is checked against, so a refresh changing any of them can
+ * make the edit invalid, e.g. delivery raising `spent` above the budget being typed in
+ */
+export const INLINE_EDIT_DEPENDENCIES: Record<InlineEditableField, InlineEditDependency[]> = {
+  budget: ['budget', 'spent'],
+  status: ['status'],
+  startDate: ['startDate', 'endDate'],
+  endDate: ['startDate', 'endDate']
+};
+
+/** Which of `fields` differ between two copies of a campaign, e.g. one being edited and one just refreshed */
+export const changedCampaignFields = <Field extends keyof CampaignData>(
+  before: CampaignData,
+  after: CampaignData,
+  fields: Field[]
+): Field[] => fields.filter(field => before[field] !== after[field]);
+
+export const CAMPAIGN_STATUS_LABELS: Record<CampaignData['status'], string> = {
+  active: 'Active',
+  paused: 'Paused',
+  completed: 'Completed',
+  archived: 'Archived'
+};
+
+/** Pausing stops an active campaign and resuming restarts a paused one; others cannot toggle */
+export const pauseToggleStatus = (campaign: CampaignData): CampaignData['status'] | null => {
+  if (campaign.status === 'active') return 'paused';
+  if (campaign.status === 'paused') return 'active';
+  return null;
+};
+
+/** Archiving hides a campaign from reporting; restored campaigns come back paused */
+export const archiveToggleStatus = (campaign: CampaignData): CampaignData['status'] =>
+  campaign.status === 'archived' ? 'paused' : 'archived';
+
+/** `campaign-<n>` one past the highest number already used */
+export const nextCampaignId = (campaigns: CampaignData[]): string => {
+  const highest = campaigns.reduce((max, campaign) => {
+    const match = /^campaign-(\d+)$/.exec(campaign.id);
+    return match ? Math.max(max, Number(match[1])) : max;
+  }, 0);
+  return `campaign-${highest + 1}`;
+};
@@ -0,0 +1,94 @@
+// Campaign table grouping: which group each campaign belongs to, the order groups are
+// shown in, and the totals on each group's header row.
+
+import { parseISODate } from '@/lib/dates';
+import { totalCampaigns, type CampaignTotals } from './aggregations';
+import { CAMPAIGN_STATUS_LABELS } from './campaignEditing';
+import { CAMPAIGN_STATUSES, type CampaignData } from './mockData';
+
+export type CampaignGroupBy = 'none' | 'client' | 'status' | 'startMonth' | 'type';
+
+export const CAMPAIGN_GROUP_BY_LABELS: Record<CampaignGroupBy, string> = {
+  none: 'No grouping',
+  client: 'Client',
+  status: 'Status',
+  startMonth: 'Start month',
+  type: 'Campaign type'
+};
+
+export const CAMPAIGN_GROUP_BYS = Object.keys(CAMPAIGN_GROUP_BY_LABELS) as CampaignGroupBy[];
+
+export interface CampaignGroupSummary {
+  key: string;
+  label: string;
+  /** Totals over every campaign in the group, not just those on the current page */
+  totals: CampaignTotals;
+}
+
+const OTHER_TYPE = 'Other';
+
+/** The type a campaign is named with after its last dash, e.g. "Retargeting" in "Campaign 7 - Retargeting" */
+export const campaignType = (name: string): string => {
+  const match = name.match(/\s[-–—]\s*([^-–—]+)$/);
+  return match?.[1].trim() || OTHER_TYPE;
+};
+
+export const campaignGroupKey = (campaign: CampaignData, groupBy: CampaignGroupBy): string => {
+  switch (groupBy) {
+    case 'client':
+      return campaign.client;
+    case 'status':
+      return campaign.status;
+    case 'startMonth':
+      return campaign.startDate.slice(0, 7);
+    case 'type':
+      return campaignType(campaign.name);
+    case 'none':
+    default:
+      return '';
+  }
+};
+
+export const campaignGroupLabel = (key: string, groupBy: CampaignGroupBy): string => {
+  if (groupBy === 'status') return CAMPAIGN_STATUS_LABELS[key as CampaignData['status']] ?? key;
+  if (groupBy === 'startMonth') {
+    return parseISODate(`${key}-01`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  return key;
+};
+
+// Statuses keep their lifecycle order, months run oldest first and "Other" types come last
+const compareGroupKeys = (a: string, b: string, groupBy: CampaignGroupBy): number => {
+  if (groupBy === 'status') {
+    return CAMPAIGN_STATUSES.indexOf(a as CampaignData['status']) - CAMPAIGN_STATUSES.indexOf(b as CampaignData['status']);
+  }
+  if (groupBy === 'type' && (a === OTHER_TYPE) !== (b === OTHER_TYPE)) return a === OTHER_TYPE ? 1 : -1;
+  return a.localeCompare(b);
+};
+
+/** Campaigns reordered so each group's rows are together, keeping their order within a group */
+export const orderByGroup = (campaigns: CampaignData[], groupBy: CampaignGroupBy): CampaignData[] => {
+  if (groupBy === 'none') return campaigns;
+  return [...campaigns].sort((a, b) =>
+    compareGroupKeys(campaignGroupKey(a, groupBy), campaignGroupKey(b, groupBy), groupBy)
+  );
+};
+
+/** Each group among `campaigns`, in display order, with its totals */
+export const summarizeGroups = (campaigns: CampaignData[], groupBy: CampaignGroupBy, asOf?: string): CampaignGroupSummary[] => {
+  if (groupBy === 'none') return [];
+  const groups = new Map<string, CampaignData[]>();
+  campaigns.forEach(campaign => {
+    const key = campaignGroupKey(campaign, groupBy);
+    const group = groups.get(key);
+    if (group) {
+      group.push(campaign);
+    } else {
+      groups.set(key, [campaign]);
+    }
+  });
+
+  return [...groups.keys()]
+    .sort((a, b) => compareGroupKeys(a, b, groupBy))
+    .map(key => ({ key, label: campaignGroupLabel(key, groupBy), totals: totalCampaigns(groups.get(key), asOf) }));
+};
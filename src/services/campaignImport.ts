@@ -0,0 +1,368 @@
+// Campaign imports: reads a CSV or JSON file, maps its columns onto campaign fields,
+// validates every row and builds a dataset the dashboard can report on. Files only
+// carry lifetime totals, so daily delivery is spread evenly over each campaign's flight.
+
+import Papa from 'papaparse';
+import { eachDay, toISODate, type DateRange } from '@/lib/dates';
+import { CAMPAIGN_STATUSES, type CampaignDailyStat, type CampaignData, type SimulatedDataset } from './mockData';
+
+export type ImportValue = string | number | boolean | null | undefined;
+
+export interface ImportSource {
+  /** Column names in file order */
+  columns: string[];
+  rows: Array<Record<string, ImportValue>>;
+}
+
+export type ImportFieldId =
+  | 'id' | 'name' | 'client' | 'status' | 'startDate' | 'endDate'
+  | 'budget' | 'spent' | 'impressions' | 'clicks' | 'conversions' | 'revenue'
+  | 'channel' | 'adType';
+
+export type ImportFieldKind = 'text' | 'status' | 'date' | 'amount' | 'count';
+
+export interface ImportField {
+  id: ImportFieldId;
+  label: string;
+  kind: ImportFieldKind;
+  required: boolean;
+  /** Normalised header names recognised when suggesting a mapping */
+  aliases: string[];
+}
+
+/** Source column chosen for each field; unmapped fields are left out */
+export type ImportMapping = Partial<Record<ImportFieldId, string>>;
+
+export interface ImportRowError {
+  /** 1-based data row, not counting the header */
+  row: number;
+  field?: ImportFieldId;
+  message: string;
+}
+
+/** A validated campaign with the delivery breakdown it is reported under */
+export interface ImportedCampaign extends CampaignData {
+  channel: string;
+  adType: string;
+}
+
+export interface ImportResult {
+  campaigns: ImportedCampaign[];
+  errors: ImportRowError[];
+  /** Rows rejected because of at least one error */
+  rejectedRows: number;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  { id: 'id', label: 'Campaign ID', kind: 'text', required: false, aliases: ['id', 'campaignid'] },
+  { id: 'name', label: 'Campaign', kind: 'text', required: true, aliases: ['name', 'campaign', 'campaignname'] },
+  { id: 'client', label: 'Client', kind: 'text', required: true, aliases: ['client', 'clientname', 'advertiser', 'account'] },
+  { id: 'status', label: 'Status', kind: 'status', required: true, aliases: ['status', 'state'] },
+  { id: 'startDate', label: 'Start Date', kind: 'date', required: true, aliases: ['startdate', 'start', 'from'] },
+  { id: 'endDate', label: 'End Date', kind: 'date', required: true, aliases: ['enddate', 'end', 'to'] },
+  { id: 'budget', label: 'Budget', kind: 'amount', required: true, aliases: ['budget', 'totalbudget'] },
+  { id: 'spent', label: 'Spent', kind: 'amount', required: true, aliases: ['spent', 'spend', 'cost', 'amountspent'] },
+  { id: 'impressions', label: 'Impressions', kind: 'count', required: false, aliases: ['impressions', 'impr', 'imps'] },
+  { id: 'clicks', label: 'Clicks', kind: 'count', required: false, aliases: ['clicks'] },
+  { id: 'conversions', label: 'Conversions', kind: 'count', required: false, aliases: ['conversions', 'conv', 'results'] },
+  { id: 'revenue', label: 'Revenue', kind: 'amount', required: false, aliases: ['revenue', 'conversionvalue', 'value'] },
+  { id: 'channel', label: 'Channel', kind: 'text', required: false, aliases: ['channel', 'platform', 'network'] },
+  { id: 'adType', label: 'Ad Type', kind: 'text', required: false, aliases: ['adtype', 'format', 'adformat'] }
+];
+
+/** Channel and ad type for campaigns whose file does not say */
+export const UNSPECIFIED_BREAKDOWN = 'Imported';
+
+const MAX_ROW_ERRORS = 500;
+
+const normaliseHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parseCsv = (text: string): ImportSource => {
+  const result = Papa.parse<Record<string, string>>(text, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    transformHeader: header => header.trim()
+  });
+  const fatal = result.errors.find(error => error.type === 'Delimiter' && result.data.length === 0);
+  if (fatal) throw new ImportError(`The CSV file could not be read: ${fatal.message}`);
+  return { columns: (result.meta.fields ?? []).filter(Boolean), rows: result.data };
+};
+
+// Accepts an array of objects, or an object with a `campaigns` array as exported by the API
+const parseJson = (text: string): ImportSource => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new ImportError(`The JSON file could not be read: ${(error as Error).message}`);
+  }
+
+  const records = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { campaigns?: unknown } | null)?.campaigns;
+  if (!Array.isArray(records)) {
+    throw new ImportError('The JSON file must contain an array of campaigns');
+  }
+
+  const columns = new Set<string>();
+  const rows = records.map((record, index) => {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      throw new ImportError(`Item ${index + 1} in the JSON file is not an object`);
+    }
+    Object.keys(record).forEach(key => columns.add(key));
+    return record as Record<string, ImportValue>;
+  });
+  return { columns: [...columns], rows };
+};
+
+/** Reads `text` as CSV or JSON, judged by the file name and falling back to the content */
+export const parseImportFile = (text: string, filename: string = ''): ImportSource => {
+  const isJson = /\.json$/i.test(filename) || (!/\.csv$/i.test(filename) && /^\s*[[{]/.test(text));
+  const source = isJson ? parseJson(text) : parseCsv(text);
+  if (source.rows.length === 0) throw new ImportError('The file does not contain any campaigns');
+  return source;
+};
+
+/** Maps each field onto the first column whose name matches one of its aliases */
+export const suggestMapping = (columns: string[]): ImportMapping => {
+  const mapping: ImportMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(field => {
+    const column = columns.find(candidate =>
+      !used.has(candidate) && field.aliases.includes(normaliseHeader(candidate))
+    );
+    if (column) {
+      mapping[field.id] = column;
+      used.add(column);
+    }
+  });
+  return mapping;
+};
+
+/** Required fields without a source column */
+export const missingRequiredFields = (mapping: ImportMapping): ImportField[] =>
+  IMPORT_FIELDS.filter(field => field.required && !mapping[field.id]);
+
+const isBlank = (value: ImportValue) => value === null || value === undefined || String(value).trim() === '';
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+// ISO dates (optionally with a time, which is dropped) or US month/day/year
+const parseDate = (value: ImportValue): string | null => {
+  const text = String(value).trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/.exec(text);
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(text);
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3]), Number(us[1]), Number(us[2])]
+      : [NaN, NaN, NaN];
+  if (!isValidDate(year, month, day)) return null;
+  return toISODate(new Date(Date.UTC(year, month - 1, day)));
+};
+
+// Currency symbols, spaces and thousands separators are ignored, e.g. "$1,250.50"
+const parseNumber = (value: ImportValue): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const text = String(value).trim().replace(/[\s$€£,]/g, '');
+  if (!/^-?\d*\.?\d+$/.test(text)) return null;
+  return Number(text);
+};
+
+const describeValue = (value: ImportValue) => `"${String(value).trim()}"`;
+
+type RowValues = Partial<Record<ImportFieldId, string | number>>;
+
+const readField = (
+  field: ImportField,
+  value: ImportValue,
+  report: (message: string) => void
+): string | number | undefined => {
+  if (isBlank(value)) {
+    if (field.required) report(`${field.label} is required`);
+    return undefined;
+  }
+
+  switch (field.kind) {
+    case 'status': {
+      const status = String(value).trim().toLowerCase();
+      if (!CAMPAIGN_STATUSES.includes(status as CampaignData['status'])) {
+        report(`${field.label} ${describeValue(value)} must be one of ${CAMPAIGN_STATUSES.join(', ')}`);
+        return undefined;
+      }
+      return status;
+    }
+    case 'date': {
+      const date = parseDate(value);
+      if (!date) report(`${field.label} ${describeValue(value)} is not a date (use YYYY-MM-DD or MM/DD/YYYY)`);
+      return date ?? undefined;
+    }
+    case 'amount':
+    case 'count': {
+      const number = parseNumber(value);
+      if (number === null || number < 0) {
+        report(`${field.label} ${describeValue(value)} must be a non-negative number`);
+        return undefined;
+      }
+      // Matches the edit form, and keeps shares of budget defined
+      if (field.id === 'budget' && number === 0) {
+        report(`${field.label} must be more than zero`);
+        return undefined;
+      }
+      if (field.kind === 'count' && !Number.isInteger(number)) {
+        report(`${field.label} ${describeValue(value)} must be a whole number`);
+        return undefined;
+      }
+      return field.kind === 'amount' ? Math.round(number * 100) / 100 : number;
+    }
+    case 'text':
+    default:
+      return String(value).trim();
+  }
+};
+
+/**
+ * Validates every row against `mapping`. Rows with any error are rejected and reported;
+ * the rest become campaigns with CTR and CPC recomputed from their totals. Campaigns
+ * without an id are numbered after the row they came from.
+ */
+export const validateImport = (source: ImportSource, mapping: ImportMapping): ImportResult => {
+  const missing = missingRequiredFields(mapping);
+  if (missing.length > 0) {
+    throw new ImportError(`Choose a column for ${missing.map(field => field.label).join(', ')}`);
+  }
+
+  const campaigns: ImportedCampaign[] = [];
+  const errors: ImportRowError[] = [];
+  const seenIds = new Map<string, number>();
+  let rejectedRows = 0;
+
+  source.rows.forEach((record, index) => {
+    const row = index + 1;
+    const rowErrors: ImportRowError[] = [];
+    const values: RowValues = {};
+
+    IMPORT_FIELDS.forEach(field => {
+      const column = mapping[field.id];
+      if (!column) return;
+      const value = readField(field, record[column], message => rowErrors.push({ row, field: field.id, message }));
+      if (value !== undefined) values[field.id] = value;
+    });
+
+    const { startDate, endDate } = values;
+    const impressions = Number(values.impressions ?? 0);
+    const clicks = Number(values.clicks ?? 0);
+    if (startDate && endDate && endDate < startDate) {
+      rowErrors.push({ row, field: 'endDate', message: 'End Date is before Start Date' });
+    }
+    if (values.budget !== undefined && values.spent !== undefined && Number(values.spent) > Number(values.budget)) {
+      rowErrors.push({ row, field: 'spent', message: `Spent (${values.spent}) exceeds Budget (${values.budget})` });
+    }
+    if (clicks > impressions && mapping.impressions) {
+      rowErrors.push({ row, field: 'clicks', message: `Clicks (${clicks}) exceed Impressions (${impressions})` });
+    }
+
+    const id = values.id !== undefined ? String(values.id) : `import-${row}`;
+    const firstRow = seenIds.get(id);
+    if (firstRow !== undefined) {
+      rowErrors.push({ row, field: 'id', message: `Campaign ID "${id}" is already used by row ${firstRow}` });
+    } else {
+      seenIds.set(id, row);
+    }
+
+    if (rowErrors.length > 0) {
+      rejectedRows += 1;
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const spent = Number(values.spent);
+    campaigns.push({
+      id,
+      name: String(values.name),
+      client: String(values.client),
+      status: values.status as CampaignData['status'],
+      startDate: String(startDate),
+      endDate: String(endDate),
+      budget: Number(values.budget),
+      spent,
+      impressions,
+      clicks,
+      conversions: Number(values.conversions ?? 0),
+      revenue: Number(values.revenue ?? 0),
+      ctr: impressions > 0 ? (clicks / impressions) * 100 : 0,
+      cpc: clicks > 0 ? spent / clicks : 0,
+      channel: values.channel !== undefined ? String(values.channel) : UNSPECIFIED_BREAKDOWN,
+      adType: values.adType !== undefined ? String(values.adType) : UNSPECIFIED_BREAKDOWN
+    });
+  });
+
+  return { campaigns, errors: errors.slice(0, MAX_ROW_ERRORS), rejectedRows };
+};
+
+/** From the earliest start to the latest end, e.g. to report on every imported flight */
+export const importedDateRange = (campaigns: CampaignData[]): DateRange => ({
+  from: campaigns.reduce((from, campaign) => (campaign.startDate < from ? campaign.startDate : from), campaigns[0].startDate),
+  to: campaigns.reduce((to, campaign) => (campaign.endDate > to ? campaign.endDate : to), campaigns[0].endDate)
+});
+
+// Splits `total` into `parts` near-equal shares at the given precision, remainder first
+const spread = (total: number, parts: number, unitsPerWhole: number): number[] => {
+  const units = Math.round(total * unitsPerWhole);
+  const base = Math.floor(units / parts);
+  const remainder = units - base * parts;
+  return Array.from({ length: parts }, (_, index) => (base + (index < remainder ? 1 : 0)) / unitsPerWhole);
+};
+
+/**
+ * The dataset for `campaigns` as of `anchorDate`. Each campaign's totals are delivered
+ * evenly over the days it has run so far (its whole flight if it has not started yet),
+ * so lifetime totals match the file and date filters report a proportional share.
+ */
+export const buildImportedDataset = (
+  campaigns: ImportedCampaign[],
+  anchorDate: Date | string = new Date()
+): SimulatedDataset => {
+  const anchor = toISODate(new Date(anchorDate));
+  const events: CampaignDailyStat[] = [];
+
+  campaigns.forEach(campaign => {
+    const lastDay = campaign.endDate < anchor ? campaign.endDate : anchor;
+    const days = eachDay({ from: campaign.startDate, to: lastDay < campaign.startDate ? campaign.endDate : lastDay });
+    const impressions = spread(campaign.impressions, days.length, 1);
+    const clicks = spread(campaign.clicks, days.length, 1);
+    const conversions = spread(campaign.conversions, days.length, 1);
+    const spend = spread(campaign.spent, days.length, 100);
+    const revenue = spread(campaign.revenue, days.length, 100);
+
+    days.forEach((date, index) => {
+      events.push({
+        campaignId: campaign.id,
+        date,
+        channel: campaign.channel,
+        adType: campaign.adType,
+        impressions: impressions[index],
+        clicks: clicks[index],
+        conversions: conversions[index],
+        spend: spend[index],
+        revenue: revenue[index]
+      });
+    });
+  });
+
+  return {
+    anchorDate: anchor,
+    campaigns: campaigns.map(({ channel: _channel, adType: _adType, ...campaign }) => campaign),
+    events
+  };
+};
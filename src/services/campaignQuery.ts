@@ -0,0 +1,284 @@
+// Campaign table queries: the search, column filters, sort, grouping and page a table asks
+// for, and the page of rows that answers it. Small lists are answered in the browser; data
+// sources answer the same query so large lists never have to be loaded whole.
+
+import { totalCampaigns, type CampaignTotals } from './aggregations';
+import {
+  campaignGroupKey,
+  orderByGroup,
+  summarizeGroups,
+  type CampaignGroupBy,
+  type CampaignGroupSummary
+} from './campaignGrouping';
+import type { CampaignData } from './mockData';
+import { campaignValue, type CampaignValueKey } from './performanceMetrics';
+import type { CampaignColumnId } from './viewState';
+
+export type SortOrder = 'asc' | 'desc';
+
+export interface SortRule {
+  /** A campaign field or a derived metric such as ROAS */
+  key: CampaignValueKey;
+  direction: SortOrder;
+}
+
+/** A filter on one column, shaped by the column's type; empty bounds are open */
+export type ColumnFilter =
+  | { type: 'range'; min?: number; max?: number }
+  | { type: 'dates'; from?: string; to?: string }
+  | { type: 'values'; values: string[] };
+
+export type ColumnFilters = Partial<Record<CampaignColumnId, ColumnFilter>>;
+
+export const COLUMN_FILTER_TYPES: Record<CampaignColumnId, ColumnFilter['type']> = {
+  client: 'values',
+  budget: 'range',
+  spent: 'range',
+  revenue: 'range',
+  impressions: 'range',
+  clicks: 'range',
+  conversions: 'range',
+  ctr: 'range',
+  cpc: 'range',
+  status: 'values',
+  startDate: 'dates',
+  endDate: 'dates',
+  cpa: 'range',
+  roas: 'range',
+  cpm: 'range',
+  conversionRate: 'range',
+  utilisation: 'range',
+  pacing: 'range'
+};
+
+export interface CampaignQuery {
+  /** Free text matched against campaign name and client */
+  search: string;
+  filters: ColumnFilters;
+  /** Applied in order; later rules break ties in earlier ones */
+  sort: SortRule[];
+  /** Rows are ordered by group before the sort, so each page holds whole runs of a group */
+  groupBy: CampaignGroupBy;
+  /** 1-based */
+  page: number;
+  pageSize: number;
+}
+
+export interface CampaignPage {
+  rows: CampaignData[];
+  /** Campaigns matching the query across every page */
+  total: number;
+  /** Totals over every matching campaign */
+  totals: CampaignTotals;
+  /** The groups with rows on this page, totalled over all their matching campaigns; empty when ungrouped */
+  groups: CampaignGroupSummary[];
+  /** The page returned, which may be earlier than the one asked for when it is past the end */
+  page: number;
+  pageSize: number;
+}
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+export const DEFAULT_PAGE_SIZE = 10;
+/** Rows asked for at a time while scrolling through every match a data source holds */
+export const SCROLL_WINDOW_SIZE = 50;
+
+/** Whether the filter narrows anything; filters without bounds or values are dropped */
+export const isActiveFilter = (filter: ColumnFilter | undefined): filter is ColumnFilter => {
+  if (!filter) return false;
+  switch (filter.type) {
+    case 'range':
+      return filter.min !== undefined || filter.max !== undefined;
+    case 'dates':
+      return !!filter.from || !!filter.to;
+    case 'values':
+    default:
+      return filter.values.length > 0;
+  }
+};
+
+/** `filters` with `column` replaced, or removed when `filter` is empty */
+export const setColumnFilter = (filters: ColumnFilters, column: CampaignColumnId, filter?: ColumnFilter): ColumnFilters => {
+  const { [column]: _removed, ...rest } = filters;
+  return isActiveFilter(filter) ? { ...rest, [column]: filter } : rest;
+};
+
+const matchesColumnFilter = (value: ReturnType<typeof campaignValue>, filter: ColumnFilter): boolean => {
+  switch (filter.type) {
+    case 'range':
+      return typeof value === 'number' &&
+        (filter.min === undefined || value >= filter.min) &&
+        (filter.max === undefined || value <= filter.max);
+    case 'dates':
+      // ISO dates compare correctly as strings
+      return typeof value === 'string' && (!filter.from || value >= filter.from) && (!filter.to || value <= filter.to);
+    case 'values':
+    default:
+      return filter.values.includes(String(value));
+  }
+};
+
+export const matchesCampaignQuery = (
+  campaign: CampaignData,
+  { search, filters }: Pick<CampaignQuery, 'search' | 'filters'>,
+  asOf?: string
+) => {
+  const term = search.trim().toLowerCase();
+  const matchesSearch = !term ||
+    campaign.name.toLowerCase().includes(term) ||
+    campaign.client.toLowerCase().includes(term);
+  return matchesSearch && Object.entries(filters).every(([column, filter]) =>
+    !isActiveFilter(filter) || matchesColumnFilter(campaignValue(campaign, column as CampaignColumnId, asOf), filter)
+  );
+};
+
+export const compareCampaigns = (a: CampaignData, b: CampaignData, key: CampaignValueKey, asOf?: string): number => {
+  const aVal = campaignValue(a, key, asOf);
+  const bVal = campaignValue(b, key, asOf);
+  // Undefined metrics, e.g. CPA before the first conversion, sort as if infinitely high
+  if (aVal === null || bVal === null) return aVal === bVal ? 0 : aVal === null ? 1 : -1;
+  if (typeof aVal === 'string' && typeof bVal === 'string') return aVal.localeCompare(bVal);
+  if (typeof aVal === 'number' && typeof bVal === 'number') return aVal - bVal;
+  return 0;
+};
+
+/** The campaigns matching the query's search and filters, in its sort order; pacing is measured as of `asOf` */
+export const filterAndSortCampaigns = (
+  campaigns: CampaignData[],
+  query: Pick<CampaignQuery, 'search' | 'filters' | 'sort'>,
+  asOf?: string
+) => {
+  const filtered = campaigns.filter(campaign => matchesCampaignQuery(campaign, query, asOf));
+  if (query.sort.length === 0) return filtered;
+  return filtered.sort((a, b) => {
+    for (const { key, direction } of query.sort) {
+      const comparison = compareCampaigns(a, b, key, asOf);
+      if (comparison !== 0) return direction === 'asc' ? comparison : -comparison;
+    }
+    return 0;
+  });
+};
+
+/**
+ * The sort after clicking a column header. A plain click sorts by that column alone,
+ * cycling ascending, descending and unsorted; with `multi` (shift-click) the column is
+ * added to the existing sort or cycled in place.
+ */
+export const toggleSort = (sort: SortRule[], key: CampaignValueKey, multi: boolean = false): SortRule[] => {
+  const existing = sort.find(rule => rule.key === key);
+  const cycled: SortRule | null = !existing
+    ? { key, direction: 'asc' }
+    : existing.direction === 'asc' ? { key, direction: 'desc' } : null;
+
+  if (multi) {
+    if (!existing) return [...sort, cycled];
+    return cycled
+      ? sort.map(rule => (rule.key === key ? cycled : rule))
+      : sort.filter(rule => rule.key !== key);
+  }
+  // A plain click on a multi-column sort starts over from the clicked column
+  if (sort.length > 1) return [{ key, direction: 'asc' }];
+  return cycled ? [cycled] : [];
+};
+
+// Sorts and column filters as query-string entries, shared by shareable links and the REST API:
+//   sort=budget:desc&sort=name:asc
+//   filter.budget=1000..5000  filter.startDate=2024-01-01..  filter.client=Acme&filter.client=Globex
+const RANGE_SEPARATOR = '..';
+
+export const sortParams = (sort: SortRule[]): Array<[string, string]> =>
+  sort.map(({ key, direction }) => ['sort', `${key}:${direction}`]);
+
+export const columnFilterParams = (filters: ColumnFilters): Array<[string, string]> =>
+  Object.entries(filters).flatMap(([column, filter]): Array<[string, string]> => {
+    if (!isActiveFilter(filter)) return [];
+    const name = `filter.${column}`;
+    switch (filter.type) {
+      case 'range':
+        return [[name, `${filter.min ?? ''}${RANGE_SEPARATOR}${filter.max ?? ''}`]];
+      case 'dates':
+        return [[name, `${filter.from ?? ''}${RANGE_SEPARATOR}${filter.to ?? ''}`]];
+      case 'values':
+      default:
+        return filter.values.map(value => [name, value]);
+    }
+  });
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const readBound = (raw: string): number | undefined => {
+  if (raw.trim() === '') return undefined;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/** Reads column filters written by `columnFilterParams`; malformed entries are skipped */
+export const parseColumnFilterParams = (params: URLSearchParams): ColumnFilters => {
+  let filters: ColumnFilters = {};
+  (Object.keys(COLUMN_FILTER_TYPES) as CampaignColumnId[]).forEach(column => {
+    const entries = params.getAll(`filter.${column}`);
+    if (entries.length === 0) return;
+
+    const type = COLUMN_FILTER_TYPES[column];
+    if (type === 'values') {
+      filters = setColumnFilter(filters, column, { type, values: [...new Set(entries.filter(Boolean))] });
+      return;
+    }
+    const [low = '', high = ''] = entries[0].split(RANGE_SEPARATOR);
+    filters = setColumnFilter(filters, column, type === 'range'
+      ? { type, min: readBound(low), max: readBound(high) }
+      : { type, from: ISO_DATE.test(low) ? low : undefined, to: ISO_DATE.test(high) ? high : undefined });
+  });
+  return filters;
+};
+
+export const pageCount = (total: number, pageSize: number) => Math.max(Math.ceil(total / pageSize), 1);
+
+/** A page number within 1..pageCount, e.g. for a shared link that outlived its results */
+export const clampPage = (page: number, total: number, pageSize: number) =>
+  Math.min(Math.max(Math.floor(page) || 1, 1), pageCount(total, pageSize));
+
+export const sliceCampaignPage = (
+  matching: CampaignData[],
+  page: number,
+  pageSize: number,
+  groupBy: CampaignGroupBy = 'none',
+  asOf?: string
+): CampaignPage => {
+  const ordered = orderByGroup(matching, groupBy);
+  const current = clampPage(page, ordered.length, pageSize);
+  const start = (current - 1) * pageSize;
+  const rows = ordered.slice(start, start + pageSize);
+  const groupsOnPage = new Set(rows.map(campaign => campaignGroupKey(campaign, groupBy)));
+
+  return {
+    rows,
+    total: ordered.length,
+    totals: totalCampaigns(ordered, asOf),
+    groups: summarizeGroups(ordered, groupBy, asOf).filter(group => groupsOnPage.has(group.key)),
+    page: current,
+    pageSize
+  };
+};
+
+/** `asOf` is the day pacing is measured on, e.g. the last day of the reporting period */
+export const runCampaignQuery = (campaigns: CampaignData[], query: CampaignQuery, asOf?: string): CampaignPage =>
+  sliceCampaignPage(filterAndSortCampaigns(campaigns, query, asOf), query.page, query.pageSize, query.groupBy, asOf);
+
+/**
+ * Page numbers for a navigator: always the first and last page and `siblings` either side
+ * of the current one, with "ellipsis" standing in for each gap, e.g. 1 … 6 7 8 … 20
+ */
+export const pageNumbers = (current: number, total: number, siblings: number = 1): Array<number | 'ellipsis'> => {
+  const pages = new Set([1, total]);
+  for (let page = current - siblings; page <= current + siblings; page++) {
+    if (page > 1 && page < total) pages.add(page);
+  }
+  // A gap of one page shows that page rather than an ellipsis
+  if (current - siblings === 3) pages.add(2);
+  if (current + siblings === total - 2) pages.add(total - 1);
+
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.flatMap((page, index) =>
+    index > 0 && page - sorted[index - 1] > 1 ? ['ellipsis' as const, page] : [page]
+  );
+};
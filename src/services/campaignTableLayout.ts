@@ -0,0 +1,169 @@
+// Campaign table columns: what each column shows and how wide it may be, plus the order
+// and widths each user arranges them in. Which columns are visible belongs to the view
+// (URL and saved views); the arrangement is kept per browser like the CSV settings.
+
+import { parseISODate } from '@/lib/dates';
+import { CAMPAIGN_STATUS_LABELS } from './campaignEditing';
+import type { ColumnFilter } from './campaignQuery';
+import type { CampaignData } from './mockData';
+import { DERIVED_METRICS, type CampaignValueKey } from './performanceMetrics';
+import { CAMPAIGN_COLUMN_IDS, type CampaignColumnId } from './viewState';
+
+export interface CampaignTableColumn {
+  id: CampaignColumnId;
+  label: string;
+  align: 'left' | 'right';
+  /** How values are written in filter summaries */
+  format: 'text' | 'status' | 'currency' | 'number' | 'percent' | 'ratio' | 'date';
+  /** The campaign field or derived metric the column sorts by */
+  sortKey: CampaignValueKey;
+  /** Width in pixels before the user resizes the column */
+  defaultWidth: number;
+  minWidth: number;
+}
+
+/** The campaign name column, always shown and pinned to the left */
+export const PINNED_COLUMN = { label: 'Campaign', sortKey: 'name', defaultWidth: 240, minWidth: 160 } as const;
+
+export const CAMPAIGN_TABLE_COLUMNS: CampaignTableColumn[] = [
+  { id: 'client', label: 'Client', align: 'left', format: 'text', sortKey: 'client', defaultWidth: 140, minWidth: 90 },
+  { id: 'budget', label: 'Budget', align: 'right', format: 'currency', sortKey: 'budget', defaultWidth: 120, minWidth: 90 },
+  { id: 'spent', label: 'Spent', align: 'right', format: 'currency', sortKey: 'spent', defaultWidth: 130, minWidth: 90 },
+  { id: 'revenue', label: 'Revenue', align: 'right', format: 'currency', sortKey: 'revenue', defaultWidth: 120, minWidth: 90 },
+  { id: 'impressions', label: 'Impressions', align: 'right', format: 'number', sortKey: 'impressions', defaultWidth: 130, minWidth: 90 },
+  { id: 'clicks', label: 'Clicks', align: 'right', format: 'number', sortKey: 'clicks', defaultWidth: 100, minWidth: 70 },
+  { id: 'conversions', label: 'Conversions', align: 'right', format: 'number', sortKey: 'conversions', defaultWidth: 130, minWidth: 90 },
+  { id: 'ctr', label: 'CTR', align: 'right', format: 'percent', sortKey: 'ctr', defaultWidth: 90, minWidth: 70 },
+  { id: 'cpc', label: 'CPC', align: 'right', format: 'currency', sortKey: 'cpc', defaultWidth: 90, minWidth: 70 },
+  { id: 'cpa', label: DERIVED_METRICS.cpa.label, align: 'right', format: 'currency', sortKey: 'cpa', defaultWidth: 100, minWidth: 70 },
+  { id: 'roas', label: DERIVED_METRICS.roas.label, align: 'right', format: 'ratio', sortKey: 'roas', defaultWidth: 90, minWidth: 70 },
+  { id: 'cpm', label: DERIVED_METRICS.cpm.label, align: 'right', format: 'currency', sortKey: 'cpm', defaultWidth: 90, minWidth: 70 },
+  { id: 'conversionRate', label: DERIVED_METRICS.conversionRate.label, align: 'right', format: 'percent', sortKey: 'conversionRate', defaultWidth: 110, minWidth: 80 },
+  { id: 'utilisation', label: DERIVED_METRICS.utilisation.label, align: 'right', format: 'percent', sortKey: 'utilisation', defaultWidth: 120, minWidth: 80 },
+  { id: 'pacing', label: DERIVED_METRICS.pacing.label, align: 'right', format: 'percent', sortKey: 'pacing', defaultWidth: 100, minWidth: 70 },
+  { id: 'status', label: 'Status', align: 'left', format: 'status', sortKey: 'status', defaultWidth: 120, minWidth: 90 },
+  { id: 'startDate', label: 'Start Date', align: 'left', format: 'date', sortKey: 'startDate', defaultWidth: 120, minWidth: 90 },
+  { id: 'endDate', label: 'End Date', align: 'left', format: 'date', sortKey: 'endDate', defaultWidth: 120, minWidth: 90 }
+];
+
+const COLUMNS_BY_ID = new Map(CAMPAIGN_TABLE_COLUMNS.map(column => [column.id, column]));
+
+export const getCampaignTableColumn = (id: CampaignColumnId): CampaignTableColumn => {
+  const column = COLUMNS_BY_ID.get(id);
+  if (!column) throw new Error(`Unknown campaign table column "${id}"`);
+  return column;
+};
+
+export interface CampaignTableLayout {
+  /** Every movable column, in display order */
+  order: CampaignColumnId[];
+  /** Pixel widths of resized columns, keyed by column id or "name" for the pinned column */
+  widths: Partial<Record<CampaignColumnId | 'name', number>>;
+}
+
+export const DEFAULT_TABLE_LAYOUT: CampaignTableLayout = {
+  order: [...CAMPAIGN_COLUMN_IDS],
+  widths: {}
+};
+
+const isColumnId = (id: unknown): id is CampaignColumnId =>
+  typeof id === 'string' && (CAMPAIGN_COLUMN_IDS as readonly string[]).includes(id);
+
+/** Width of a column in `layout`, never below its minimum */
+export const columnWidth = (layout: CampaignTableLayout, id: CampaignColumnId | 'name'): number => {
+  const { defaultWidth, minWidth } = id === 'name' ? PINNED_COLUMN : getCampaignTableColumn(id);
+  return Math.max(layout.widths[id] ?? defaultWidth, minWidth);
+};
+
+export const resizeColumn = (
+  layout: CampaignTableLayout,
+  id: CampaignColumnId | 'name',
+  width: number
+): CampaignTableLayout => {
+  const { minWidth } = id === 'name' ? PINNED_COLUMN : getCampaignTableColumn(id);
+  return { ...layout, widths: { ...layout.widths, [id]: Math.max(Math.round(width), minWidth) } };
+};
+
+/** Moves `id` to where `target` is, shifting the columns in between */
+export const moveColumn = (
+  layout: CampaignTableLayout,
+  id: CampaignColumnId,
+  target: CampaignColumnId
+): CampaignTableLayout => {
+  if (id === target) return layout;
+  const order = layout.order.filter(column => column !== id);
+  order.splice(order.indexOf(target) + (layout.order.indexOf(id) < layout.order.indexOf(target) ? 1 : 0), 0, id);
+  return { ...layout, order };
+};
+
+const formatFilterValue = (column: CampaignTableColumn, value: number | string): string => {
+  if (typeof value === 'string') {
+    if (column.format === 'status') return CAMPAIGN_STATUS_LABELS[value as CampaignData['status']] ?? value;
+    if (column.format === 'date') {
+      return parseISODate(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+    }
+    return value;
+  }
+  switch (column.format) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        maximumFractionDigits: Number.isInteger(value) ? 0 : 2
+      }).format(value);
+    case 'percent':
+      return `${value}%`;
+    case 'ratio':
+      return `${value}x`;
+    default:
+      return value.toLocaleString('en-US');
+  }
+};
+
+const describeBounds = (column: CampaignTableColumn, low?: number | string, high?: number | string): string => {
+  const hasLow = low !== undefined && low !== '';
+  const hasHigh = high !== undefined && high !== '';
+  if (hasLow && hasHigh) return `${formatFilterValue(column, low)} – ${formatFilterValue(column, high)}`;
+  if (hasLow) return `≥ ${formatFilterValue(column, low)}`;
+  return `≤ ${formatFilterValue(column, high)}`;
+};
+
+/** A filter as summary text, e.g. "$1,000 – $5,000", "≥ 2%" or "Active, Paused" */
+export const describeColumnFilter = (column: CampaignTableColumn, filter: ColumnFilter): string => {
+  switch (filter.type) {
+    case 'range':
+      return describeBounds(column, filter.min, filter.max);
+    case 'dates':
+      return describeBounds(column, filter.from, filter.to);
+    case 'values':
+    default: {
+      const labels = filter.values.map(value => formatFilterValue(column, value));
+      return labels.length > 2 ? `${labels.slice(0, 2).join(', ')} +${labels.length - 2} more` : labels.join(', ');
+    }
+  }
+};
+
+const STORAGE_KEY = 'ad-vista-pro:campaign-table-layout';
+
+/** The layout last arranged on this browser; unknown columns are dropped and new ones appended */
+export const loadTableLayout = (storage: Storage = window.localStorage): CampaignTableLayout => {
+  try {
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY) ?? '{}') as Partial<CampaignTableLayout>;
+    const order = Array.isArray(saved.order) ? [...new Set(saved.order.filter(isColumnId))] : [];
+    const widths = Object.fromEntries(
+      Object.entries(saved.widths ?? {}).filter(([id, width]) =>
+        (id === 'name' || isColumnId(id)) && typeof width === 'number' && Number.isFinite(width)
+      )
+    );
+    return {
+      order: [...order, ...CAMPAIGN_COLUMN_IDS.filter(id => !order.includes(id))],
+      widths
+    };
+  } catch {
+    return DEFAULT_TABLE_LAYOUT;
+  }
+};
+
+export const saveTableLayout = (layout: CampaignTableLayout, storage: Storage = window.localStorage): void => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(layout));
+};
@@ -0,0 +1,200 @@
+// Chart images for export: a Recharts drawing framed with its title, a legend and a
+// timestamp caption, as standalone SVG or a PNG at a chosen pixel scale. The page's
+// colours are CSS variables, so they are resolved against the current theme, or the
+// light theme for print, before the drawing leaves the document.
+
+export type ImageTheme = 'current' | 'light';
+
+export const IMAGE_THEME_LABELS: Record<ImageTheme, string> = {
+  current: 'Current theme',
+  light: 'Light (print)'
+};
+
+export const PNG_SCALES = [1, 2, 3, 4];
+
+export interface ImageLegendEntry {
+  label: string;
+  color: string;
+  /** Drawn as a dashed line, e.g. a comparison series */
+  dashed?: boolean;
+}
+
+export interface ChartImage {
+  svg: SVGSVGElement;
+  title?: string;
+  legend?: ImageLegendEntry[];
+}
+
+export interface ChartImageOptions {
+  theme?: ImageTheme;
+  /** Written under the chart, e.g. "Exported May 6, 2024, 2:30 PM" */
+  caption?: string;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PADDING = 16;
+const TITLE_HEIGHT = 28;
+const LEGEND_ROW_HEIGHT = 20;
+const CAPTION_HEIGHT = 20;
+const SWATCH_WIDTH = 14;
+// Text is not measured outside the page, so legend items are laid out by an average glyph width
+const AVERAGE_CHAR_WIDTH = 6.5;
+
+const CSS_VARIABLE = /var\((--[\w-]+)\)/g;
+
+/**
+ * Runs `read` with the theme's CSS variables in effect. Forcing the light theme drops
+ * the `dark` class for the duration of the (synchronous) call, which never reaches the
+ * screen because the browser does not paint in between.
+ */
+const withTheme = <T>(theme: ImageTheme, read: (styles: CSSStyleDeclaration) => T): T => {
+  const root = document.documentElement;
+  const forceLight = theme === 'light' && root.classList.contains('dark');
+  if (forceLight) root.classList.remove('dark');
+  try {
+    return read(getComputedStyle(root));
+  } finally {
+    if (forceLight) root.classList.add('dark');
+  }
+};
+
+const resolveVariables = (value: string, styles: CSSStyleDeclaration) =>
+  value.replace(CSS_VARIABLE, (_, name: string) => styles.getPropertyValue(name).trim());
+
+const createElement = (name: string, attributes: Record<string, string | number>) => {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([key, value]) => element.setAttribute(key, String(value)));
+  return element;
+};
+
+const createText = (text: string, attributes: Record<string, string | number>) => {
+  const element = createElement('text', attributes);
+  element.textContent = text;
+  return element;
+};
+
+const layoutLegend = (legend: ImageLegendEntry[], width: number) => {
+  const rows: Array<Array<{ entry: ImageLegendEntry; x: number }>> = [];
+  let row: Array<{ entry: ImageLegendEntry; x: number }> = [];
+  let x = 0;
+
+  legend.forEach(entry => {
+    const itemWidth = SWATCH_WIDTH + 6 + entry.label.length * AVERAGE_CHAR_WIDTH + 16;
+    if (row.length > 0 && x + itemWidth > width) {
+      rows.push(row);
+      row = [];
+      x = 0;
+    }
+    row.push({ entry, x });
+    x += itemWidth;
+  });
+  if (row.length > 0) rows.push(row);
+  return rows;
+};
+
+interface ComposedImage {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+/** The framed chart as standalone SVG markup, with its size in CSS pixels */
+export const composeChartImage = (image: ChartImage, { theme = 'current', caption }: ChartImageOptions = {}): ComposedImage =>
+  withTheme(theme, styles => {
+    const bounds = image.svg.getBoundingClientRect();
+    const chartWidth = Math.round(bounds.width);
+    const chartHeight = Math.round(bounds.height);
+    const width = chartWidth + PADDING * 2;
+    const legendRows = layoutLegend(image.legend ?? [], chartWidth);
+    const titleHeight = image.title ? TITLE_HEIGHT : 0;
+    const legendTop = PADDING + titleHeight + chartHeight + 8;
+    const captionTop = legendTop + legendRows.length * LEGEND_ROW_HEIGHT;
+    const height = captionTop + (caption ? CAPTION_HEIGHT : 0) + PADDING;
+
+    const colour = (name: string) => `hsl(${styles.getPropertyValue(name).trim()})`;
+    // XMLSerializer writes the SVG namespace declaration for the root element
+    const root = createElement('svg', {
+      width,
+      height,
+      viewBox: `0 0 ${width} ${height}`,
+      'font-family': getComputedStyle(document.body).fontFamily
+    });
+    root.appendChild(createElement('rect', { width, height, fill: colour('--card') }));
+
+    if (image.title) {
+      root.appendChild(createText(image.title, {
+        x: PADDING,
+        y: PADDING + 16,
+        'font-size': 16,
+        'font-weight': 600,
+        fill: colour('--card-foreground')
+      }));
+    }
+
+    // The chart keeps its own coordinates inside a nested viewport
+    const chart = image.svg.cloneNode(true) as SVGSVGElement;
+    [chart, ...Array.from(chart.querySelectorAll('*'))].forEach(element => {
+      Array.from(element.attributes).forEach(attribute => {
+        if (attribute.value.includes('var(')) element.setAttribute(attribute.name, resolveVariables(attribute.value, styles));
+      });
+    });
+    chart.setAttribute('x', String(PADDING));
+    chart.setAttribute('y', String(PADDING + titleHeight));
+    chart.setAttribute('width', String(chartWidth));
+    chart.setAttribute('height', String(chartHeight));
+    root.appendChild(chart);
+
+    legendRows.forEach((row, rowIndex) => {
+      const y = legendTop + rowIndex * LEGEND_ROW_HEIGHT + LEGEND_ROW_HEIGHT / 2;
+      row.forEach(({ entry, x }) => {
+        const left = PADDING + x;
+        const color = resolveVariables(entry.color, styles);
+        root.appendChild(entry.dashed
+          ? createElement('line', { x1: left, y1: y, x2: left + SWATCH_WIDTH, y2: y, stroke: color, 'stroke-width': 2, 'stroke-dasharray': '4 2' })
+          : createElement('rect', { x: left, y: y - 5, width: SWATCH_WIDTH, height: 10, rx: 2, fill: color }));
+        root.appendChild(createText(entry.label, {
+          x: left + SWATCH_WIDTH + 6,
+          y: y + 4,
+          'font-size': 12,
+          fill: colour('--card-foreground')
+        }));
+      });
+    });
+
+    if (caption) {
+      root.appendChild(createText(caption, {
+        x: PADDING,
+        y: captionTop + 14,
+        'font-size': 11,
+        fill: colour('--muted-foreground')
+      }));
+    }
+
+    return { markup: new XMLSerializer().serializeToString(root), width, height };
+  });
+
+export const renderChartPng = async (composed: ComposedImage, scale: number = 2): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([composed.markup], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The chart image could not be rendered'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(composed.width * scale);
+    canvas.height = Math.round(composed.height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Images cannot be created in this browser');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The chart image could not be encoded'))), 'image/png')
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
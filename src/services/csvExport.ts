@@ -0,0 +1,228 @@
+// Campaign CSV exports: which columns are written and in what order, how numbers are
+// rounded and localised, and which delimiter and encoding the file uses so it opens
+// cleanly in Excel as well as in scripts.
+
+import Papa from 'papaparse';
+import type { CampaignData } from './mockData';
+import { campaignMetric, type DerivedMetricId } from './performanceMetrics';
+
+export type CsvColumnId = keyof CampaignData | DerivedMetricId;
+
+export type CsvValueKind = 'text' | 'date' | 'integer' | 'currency' | 'decimal' | 'percent';
+
+export interface CsvColumn {
+  id: CsvColumnId;
+  label: string;
+  kind: CsvValueKind;
+  /** Derived from other fields rather than stored on the campaign */
+  computed?: boolean;
+  /** null when the value is undefined, e.g. cost per acquisition without conversions; pacing is measured as of `asOf` */
+  value: (campaign: CampaignData, asOf?: string) => string | number | null;
+}
+
+export type CsvDelimiter = ',' | ';' | '\t';
+export type CsvEncoding = 'utf-8' | 'utf-16le';
+export type CsvScope = 'page' | 'filtered' | 'all' | 'selected';
+
+export interface CsvExportOptions {
+  columns: CsvColumnId[];
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  /** Byte order mark, which Excel needs to detect the encoding */
+  includeBom: boolean;
+  /** BCP 47 locale for decimal separators, or null for plain machine-readable numbers */
+  locale: string | null;
+  /** Decimal places for currency, ratio and percentage values */
+  decimals: number;
+  scope: CsvScope;
+}
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  { id: 'id', label: 'Campaign ID', kind: 'text', value: campaign => campaign.id },
+  { id: 'name', label: 'Campaign', kind: 'text', value: campaign => campaign.name },
+  { id: 'client', label: 'Client', kind: 'text', value: campaign => campaign.client },
+  { id: 'status', label: 'Status', kind: 'text', value: campaign => campaign.status },
+  { id: 'startDate', label: 'Start Date', kind: 'date', value: campaign => campaign.startDate },
+  { id: 'endDate', label: 'End Date', kind: 'date', value: campaign => campaign.endDate },
+  { id: 'budget', label: 'Budget', kind: 'currency', value: campaign => campaign.budget },
+  { id: 'spent', label: 'Spent', kind: 'currency', value: campaign => campaign.spent },
+  { id: 'revenue', label: 'Revenue', kind: 'currency', value: campaign => campaign.revenue },
+  { id: 'impressions', label: 'Impressions', kind: 'integer', value: campaign => campaign.impressions },
+  { id: 'clicks', label: 'Clicks', kind: 'integer', value: campaign => campaign.clicks },
+  { id: 'conversions', label: 'Conversions', kind: 'integer', value: campaign => campaign.conversions },
+  { id: 'ctr', label: 'CTR (%)', kind: 'percent', value: campaign => campaign.ctr },
+  { id: 'cpc', label: 'CPC', kind: 'currency', value: campaign => campaign.cpc },
+  {
+    id: 'cpa',
+    label: 'CPA',
+    kind: 'currency',
+    computed: true,
+    value: campaign => campaignMetric(campaign, 'cpa')
+  },
+  {
+    id: 'roas',
+    label: 'ROAS',
+    kind: 'decimal',
+    computed: true,
+    value: campaign => campaignMetric(campaign, 'roas')
+  },
+  {
+    id: 'cpm',
+    label: 'CPM',
+    kind: 'currency',
+    computed: true,
+    value: campaign => campaignMetric(campaign, 'cpm')
+  },
+  {
+    id: 'conversionRate',
+    label: 'Conversion Rate (%)',
+    kind: 'percent',
+    computed: true,
+    value: campaign => campaignMetric(campaign, 'conversionRate')
+  },
+  {
+    id: 'utilisation',
+    label: 'Budget Used (%)',
+    kind: 'percent',
+    computed: true,
+    value: campaign => campaignMetric(campaign, 'utilisation')
+  },
+  {
+    id: 'pacing',
+    label: 'Pacing (%)',
+    kind: 'percent',
+    computed: true,
+    value: (campaign, asOf) => campaignMetric(campaign, 'pacing', asOf)
+  }
+];
+
+const COLUMNS_BY_ID = new Map(CSV_COLUMNS.map(column => [column.id, column]));
+
+export const getCsvColumn = (id: CsvColumnId): CsvColumn | undefined => COLUMNS_BY_ID.get(id);
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab'
+};
+
+export const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE'
+};
+
+export const CSV_SCOPE_LABELS: Record<CsvScope, string> = {
+  page: 'Current page',
+  filtered: 'Filtered campaigns',
+  all: 'All campaigns',
+  selected: 'Selected campaigns'
+};
+
+export const DEFAULT_CSV_EXPORT_OPTIONS: CsvExportOptions = {
+  columns: [
+    'id', 'name', 'client', 'budget', 'spent',
+    'impressions', 'clicks', 'conversions', 'ctr', 'cpc',
+    'status', 'startDate', 'endDate'
+  ],
+  delimiter: ',',
+  encoding: 'utf-8',
+  includeBom: false,
+  locale: null,
+  decimals: 2,
+  scope: 'filtered'
+};
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+// Grouping separators are left out so spreadsheets still read the cells as numbers
+const formatNumber = (value: number, fractionDigits: number, locale: string | null): string => {
+  if (!locale) return value.toFixed(fractionDigits);
+
+  const key = `${locale}:${fractionDigits}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, {
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits,
+      useGrouping: false
+    });
+    numberFormats.set(key, format);
+  }
+  return format.format(value);
+};
+
+export const formatCsvValue = (
+  column: CsvColumn,
+  campaign: CampaignData,
+  options: Pick<CsvExportOptions, 'locale' | 'decimals'>,
+  asOf?: string
+): string => {
+  const value = column.value(campaign, asOf);
+  if (value === null) return '';
+  if (typeof value === 'string') return value;
+  if (!Number.isFinite(value)) return '';
+  return formatNumber(value, column.kind === 'integer' ? 0 : options.decimals, options.locale);
+};
+
+/** The CSV text for `campaigns`, paced as of `asOf`; unknown column ids are skipped */
+export const buildCampaignCsv = (campaigns: CampaignData[], options: CsvExportOptions, asOf?: string): string => {
+  const columns = options.columns
+    .map(getCsvColumn)
+    .filter((column): column is CsvColumn => column !== undefined);
+
+  return Papa.unparse(
+    {
+      fields: columns.map(column => column.label),
+      data: campaigns.map(campaign => columns.map(column => formatCsvValue(column, campaign, options, asOf)))
+    },
+    { delimiter: options.delimiter, newline: '\r\n' }
+  );
+};
+
+const encodeUtf16le = (text: string, includeBom: boolean): Uint8Array => {
+  const offset = includeBom ? 2 : 0;
+  const bytes = new Uint8Array(offset + text.length * 2);
+  if (includeBom) {
+    bytes[0] = 0xff;
+    bytes[1] = 0xfe;
+  }
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[offset + i * 2] = code & 0xff;
+    bytes[offset + i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+};
+
+export const encodeCsv = (csv: string, options: Pick<CsvExportOptions, 'encoding' | 'includeBom'>): Blob =>
+  options.encoding === 'utf-16le'
+    ? new Blob([encodeUtf16le(csv, options.includeBom)], { type: 'text/csv;charset=utf-16le;' })
+    : new Blob([options.includeBom ? '\uFEFF' : '', csv], { type: 'text/csv;charset=utf-8;' });
+
+const STORAGE_KEY = 'ad-vista-pro:csv-export';
+
+/** The options last used on this browser, falling back to the defaults for anything missing or unknown */
+export const loadCsvExportOptions = (storage: Storage = window.localStorage): CsvExportOptions => {
+  try {
+    const saved = JSON.parse(storage.getItem(STORAGE_KEY) ?? '{}') as Partial<CsvExportOptions>;
+    const columns = Array.isArray(saved.columns) ? saved.columns.filter(id => COLUMNS_BY_ID.has(id)) : [];
+    const { decimals } = saved;
+    return {
+      columns: columns.length > 0 ? columns : DEFAULT_CSV_EXPORT_OPTIONS.columns,
+      delimiter: saved.delimiter && saved.delimiter in CSV_DELIMITER_LABELS ? saved.delimiter : DEFAULT_CSV_EXPORT_OPTIONS.delimiter,
+      encoding: saved.encoding && saved.encoding in CSV_ENCODING_LABELS ? saved.encoding : DEFAULT_CSV_EXPORT_OPTIONS.encoding,
+      includeBom: typeof saved.includeBom === 'boolean' ? saved.includeBom : DEFAULT_CSV_EXPORT_OPTIONS.includeBom,
+      locale: typeof saved.locale === 'string' ? saved.locale : DEFAULT_CSV_EXPORT_OPTIONS.locale,
+      decimals: typeof decimals === 'number' && Number.isInteger(decimals) && decimals >= 0 && decimals <= 6
+        ? decimals
+        : DEFAULT_CSV_EXPORT_OPTIONS.decimals,
+      scope: saved.scope && saved.scope in CSV_SCOPE_LABELS ? saved.scope : DEFAULT_CSV_EXPORT_OPTIONS.scope
+    };
+  } catch {
+    return DEFAULT_CSV_EXPORT_OPTIONS;
+  }
+};
+
+export const saveCsvExportOptions = (options: CsvExportOptions, storage: Storage = window.localStorage): void => {
+  storage.setItem(STORAGE_KEY, JSON.stringify(options));
+};
@@ -0,0 +1,443 @@
+// Data Source layer for Ad Agency Dashboard
+
+import { randomSeed } from '@/lib/random';
+import {
+  buildAdTypeMix,
+  buildCampaignTimeSeries,
+  buildChannelBreakdown,
+  buildMetrics,
+  buildTimeSeries,
+  filterEventsByCampaigns,
+  filterEventsByRange,
+  reportingRange,
+  summarizeCampaigns
+} from './aggregations';
+import {
+  CampaignValidationError,
+  nextCampaignId,
+  toCampaignInput,
+  validateCampaignInput,
+  type CampaignChanges,
+  type CampaignInput
+} from './campaignEditing';
+import {
+  columnFilterParams,
+  runCampaignQuery,
+  sortParams,
+  type CampaignPage,
+  type CampaignQuery
+} from './campaignQuery';
+import {
+  DEFAULT_BUDGET_RANGE,
+  filterCampaigns,
+  matchesCampaignFilters,
+  resolveComparisonRange,
+  type DashboardFilters
+} from './filters';
+import {
+  DEFAULT_CHANNELS,
+  advanceDataset,
+  randomFor,
+  simulateDataset,
+  type SimulatedDataset,
+  type MetricData,
+  type ChartDataPoint,
+  type CampaignData,
+  type MockDataOptions
+} from './mockData';
+
+// Every query is narrowed by the dashboard filters when given. Campaign rows then
+// report delivery inside the filter date range; without filters, lifetime delivery.
+// Metric changes compare against the filters' comparison range.
+export interface DataSource {
+  getMetrics(filters?: DashboardFilters): Promise<Record<string, MetricData>>;
+  getTimeSeries(filters?: DashboardFilters): Promise<ChartDataPoint[]>;
+  getChannelBreakdown(filters?: DashboardFilters): Promise<ChartDataPoint[]>;
+  getAdTypeMix(filters?: DashboardFilters): Promise<ChartDataPoint[]>;
+  getCampaigns(filters?: DashboardFilters): Promise<CampaignData[]>;
+  /** One page of the campaigns `getCampaigns` would return, searched and sorted by `query`, whose sorts and filters may name derived metrics such as `roas` */
+  queryCampaigns(query: CampaignQuery, filters?: DashboardFilters): Promise<CampaignPage>;
+  /** One campaign with lifetime delivery; rejects with a 404 DataSourceError when unknown */
+  getCampaign(id: string): Promise<CampaignData>;
+  /** Daily delivery and pacing over the campaign's flight */
+  getCampaignTimeSeries(id: string): Promise<ChartDataPoint[]>;
+  /** Adds a campaign with no delivery yet; rejects with a 422 DataSourceError when invalid */
+  createCampaign(input: CampaignInput): Promise<CampaignData>;
+  /** Edits name, client, budget, dates or status; rejects with a 404 or 422 DataSourceError */
+  updateCampaign(id: string, changes: CampaignChanges): Promise<CampaignData>;
+  /** Removes a campaign and its delivery; rejects with a 404 DataSourceError when unknown */
+  deleteCampaign(id: string): Promise<void>;
+  /** Called before live refreshes so sources that buffer or simulate data can move forward */
+  refresh?(): Promise<void>;
+  /** The last day the data covers (ISO date), for sources whose data stops before today */
+  getAsOfDate?(): Promise<string>;
+}
+
+export type DataSourceConfig =
+  | { type: 'mock'; latencyMs?: number; options?: MockDataOptions }
+  | { type: 'rest'; baseUrl: string; headers?: Record<string, string> };
+
+export class DataSourceError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'DataSourceError';
+  }
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const validated = (input: CampaignInput, spent: number): CampaignInput => {
+  try {
+    return validateCampaignInput(input, spent);
+  } catch (error) {
+    if (error instanceof CampaignValidationError) throw new DataSourceError(error.message, 422);
+    throw error;
+  }
+};
+
+const toQueryString = (filters?: DashboardFilters, extra: Array<[string, string]> = []): string => {
+  const params = new URLSearchParams(extra);
+  if (filters) {
+    const comparisonRange = resolveComparisonRange(filters);
+    params.set('from', filters.dateRange.from);
+    params.set('to', filters.dateRange.to);
+    params.set('compareFrom', comparisonRange.from);
+    params.set('compareTo', comparisonRange.to);
+    if (filters.budgetRange.min > DEFAULT_BUDGET_RANGE.min) params.set('minBudget', String(filters.budgetRange.min));
+    if (filters.budgetRange.max < DEFAULT_BUDGET_RANGE.max) params.set('maxBudget', String(filters.budgetRange.max));
+    if (filters.clients.length > 0) params.set('clients', filters.clients.join(','));
+    if (filters.status.length > 0) params.set('status', filters.status.join(','));
+    if (filters.excludedCampaignIds?.length) params.set('exclude', filters.excludedCampaignIds.join(','));
+  }
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+// Answers every query from one dataset of campaigns and their daily delivery, with an
+// optional artificial latency so loading states stay visible
+abstract class DatasetDataSource implements DataSource {
+  private dataset: SimulatedDataset | null = null;
+
+  constructor(private readonly latencyMs: number = 0) {}
+
+  protected abstract createDataset(): SimulatedDataset;
+
+  protected getDataset(): SimulatedDataset {
+    if (!this.dataset) {
+      this.dataset = this.createDataset();
+    }
+    return this.dataset;
+  }
+
+  protected setDataset(dataset: SimulatedDataset): void {
+    this.dataset = dataset;
+  }
+
+  /** Channels listed in the channel breakdown even when they have no delivery */
+  protected get channels(): string[] {
+    return [];
+  }
+
+  private async respond<T>(produce: (dataset: SimulatedDataset) => T): Promise<T> {
+    if (this.latencyMs > 0) {
+      await delay(this.latencyMs);
+    }
+    return produce(this.getDataset());
+  }
+
+  // Delivery of the campaigns matching the filters, and the range to report on
+  private select(dataset: SimulatedDataset, filters?: DashboardFilters) {
+    if (!filters) {
+      return { range: reportingRange(dataset.anchorDate), events: dataset.events };
+    }
+
+    const campaignIds = dataset.campaigns
+      .filter(campaign => matchesCampaignFilters(campaign, filters))
+      .map(campaign => campaign.id);
+    return { range: filters.dateRange, events: filterEventsByCampaigns(dataset.events, campaignIds) };
+  }
+
+  getMetrics(filters?: DashboardFilters): Promise<Record<string, MetricData>> {
+    return this.respond(dataset => {
+      const { range, events } = this.select(dataset, filters);
+      return buildMetrics(events, range, filters ? resolveComparisonRange(filters) : undefined);
+    });
+  }
+
+  getTimeSeries(filters?: DashboardFilters): Promise<ChartDataPoint[]> {
+    return this.respond(dataset => {
+      const { range, events } = this.select(dataset, filters);
+      return buildTimeSeries(events, range);
+    });
+  }
+
+  getChannelBreakdown(filters?: DashboardFilters): Promise<ChartDataPoint[]> {
+    return this.respond(dataset => {
+      const { range, events } = this.select(dataset, filters);
+      return buildChannelBreakdown(filterEventsByRange(events, range), this.channels);
+    });
+  }
+
+  getAdTypeMix(filters?: DashboardFilters): Promise<ChartDataPoint[]> {
+    return this.respond(dataset => {
+      const { range, events } = this.select(dataset, filters);
+      return buildAdTypeMix(filterEventsByRange(events, range));
+    });
+  }
+
+  getCampaigns(filters?: DashboardFilters): Promise<CampaignData[]> {
+    return this.respond(dataset => {
+      if (!filters) return dataset.campaigns;
+      return summarizeCampaigns(
+        filterCampaigns(dataset.campaigns, filters),
+        filterEventsByRange(dataset.events, filters.dateRange)
+      );
+    });
+  }
+
+  // Pacing is measured on the last reported day, or the dataset's "today" for lifetime figures
+  async queryCampaigns(query: CampaignQuery, filters?: DashboardFilters): Promise<CampaignPage> {
+    const campaigns = await this.getCampaigns(filters);
+    return runCampaignQuery(campaigns, query, filters?.dateRange.to ?? this.getDataset().anchorDate);
+  }
+
+  getAsOfDate(): Promise<string> {
+    return this.respond(dataset => dataset.anchorDate);
+  }
+
+  private findCampaign(dataset: SimulatedDataset, id: string): CampaignData {
+    const campaign = dataset.campaigns.find(candidate => candidate.id === id);
+    if (!campaign) {
+      throw new DataSourceError(`Campaign "${id}" not found`, 404);
+    }
+    return campaign;
+  }
+
+  getCampaign(id: string): Promise<CampaignData> {
+    return this.respond(dataset => this.findCampaign(dataset, id));
+  }
+
+  getCampaignTimeSeries(id: string): Promise<ChartDataPoint[]> {
+    return this.respond(dataset =>
+      buildCampaignTimeSeries(this.findCampaign(dataset, id), dataset.events, dataset.anchorDate)
+    );
+  }
+
+  createCampaign(input: CampaignInput): Promise<CampaignData> {
+    return this.respond(dataset => {
+      const campaign: CampaignData = {
+        ...validated(input, 0),
+        id: nextCampaignId(dataset.campaigns),
+        spent: 0,
+        impressions: 0,
+        clicks: 0,
+        conversions: 0,
+        revenue: 0,
+        ctr: 0,
+        cpc: 0
+      };
+      this.setDataset({ ...dataset, campaigns: [...dataset.campaigns, campaign] });
+      return campaign;
+    });
+  }
+
+  // Delivery already recorded stays as it is, even outside new flight dates
+  updateCampaign(id: string, changes: CampaignChanges): Promise<CampaignData> {
+    return this.respond(dataset => {
+      const existing = this.findCampaign(dataset, id);
+      const campaign = { ...existing, ...validated({ ...toCampaignInput(existing), ...changes }, existing.spent) };
+      this.setDataset({
+        ...dataset,
+        campaigns: dataset.campaigns.map(candidate => (candidate.id === id ? campaign : candidate))
+      });
+      return campaign;
+    });
+  }
+
+  deleteCampaign(id: string): Promise<void> {
+    return this.respond(dataset => {
+      this.findCampaign(dataset, id);
+      this.setDataset({
+        ...dataset,
+        campaigns: dataset.campaigns.filter(campaign => campaign.id !== id),
+        events: dataset.events.filter(event => event.campaignId !== id)
+      });
+    });
+  }
+}
+
+// Serves one simulated dataset
+export class MockDataSource extends DatasetDataSource {
+  private readonly options: MockDataOptions;
+  private ticks = 0;
+
+  constructor(latencyMs: number = 0, options: MockDataOptions = {}) {
+    super(latencyMs);
+    // Pin the seed so every query reads the same simulation
+    this.options = { ...options, seed: options.seed ?? randomSeed() };
+  }
+
+  protected createDataset(): SimulatedDataset {
+    return simulateDataset(this.options);
+  }
+
+  protected get channels(): string[] {
+    return this.options.channels ?? DEFAULT_CHANNELS;
+  }
+
+  async refresh(): Promise<void> {
+    this.ticks += 1;
+    this.setDataset(advanceDataset(this.getDataset(), randomFor(`live-${this.ticks}`, this.options)));
+  }
+}
+
+// Serves campaigns imported from a file; `label` names the source, e.g. the file name
+export class ImportedDataSource extends DatasetDataSource {
+  constructor(
+    private readonly imported: SimulatedDataset,
+    readonly label: string
+  ) {
+    super();
+  }
+
+  protected createDataset(): SimulatedDataset {
+    return this.imported;
+  }
+}
+
+// Reads the same shapes as JSON from a REST API:
+//   GET {baseUrl}/metrics, /timeseries, /channels, /ad-types, /campaigns,
+//       /campaigns/:id, /campaigns/:id/timeseries
+//   POST /campaigns and PATCH /campaigns/:id with a JSON body, answered with the campaign;
+//   DELETE /campaigns/:id
+//   GET /campaign-pages?q=&page=&pageSize=&group=&sort=key:dir&filter.<column>= answered with a CampaignPage,
+//       sorts and column filters written as in campaignQuery
+// Filters are sent as ?from=&to=&compareFrom=&compareTo=&clients=a,b&status=a,b&minBudget=&maxBudget=
+export class RestDataSource implements DataSource {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string, private readonly headers: Record<string, string> = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  private async request<T>(
+    path: string,
+    filters?: DashboardFilters,
+    { method = 'GET', json, params }: { method?: string; json?: unknown; params?: Array<[string, string]> } = {}
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}${toQueryString(filters, params)}`, {
+        method,
+        headers: {
+          Accept: 'application/json',
+          ...(json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...this.headers
+        },
+        body: json !== undefined ? JSON.stringify(json) : undefined
+      });
+    } catch (error) {
+      throw new DataSourceError(`Network error while requesting ${path}: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+      throw new DataSourceError(`Request to ${path} failed with status ${response.status}`, response.status);
+    }
+
+    // Deletes answer 204 No Content
+    if (response.status === 204) return undefined as T;
+    return response.json() as Promise<T>;
+  }
+
+  getMetrics(filters?: DashboardFilters): Promise<Record<string, MetricData>> {
+    return this.request('/metrics', filters);
+  }
+
+  getTimeSeries(filters?: DashboardFilters): Promise<ChartDataPoint[]> {
+    return this.request('/timeseries', filters);
+  }
+
+  getChannelBreakdown(filters?: DashboardFilters): Promise<ChartDataPoint[]> {
+    return this.request('/channels', filters);
+  }
+
+  getAdTypeMix(filters?: DashboardFilters): Promise<ChartDataPoint[]> {
+    return this.request('/ad-types', filters);
+  }
+
+  getCampaigns(filters?: DashboardFilters): Promise<CampaignData[]> {
+    return this.request('/campaigns', filters);
+  }
+
+  queryCampaigns(query: CampaignQuery, filters?: DashboardFilters): Promise<CampaignPage> {
+    const params: Array<[string, string]> = [
+      ['page', String(query.page)],
+      ['pageSize', String(query.pageSize)],
+      ...sortParams(query.sort),
+      ...columnFilterParams(query.filters)
+    ];
+    if (query.groupBy !== 'none') params.push(['group', query.groupBy]);
+    if (query.search.trim()) params.push(['q', query.search.trim()]);
+    return this.request('/campaign-pages', filters, { params });
+  }
+
+  getCampaign(id: string): Promise<CampaignData> {
+    return this.request(`/campaigns/${encodeURIComponent(id)}`);
+  }
+
+  getCampaignTimeSeries(id: string): Promise<ChartDataPoint[]> {
+    return this.request(`/campaigns/${encodeURIComponent(id)}/timeseries`);
+  }
+
+  createCampaign(input: CampaignInput): Promise<CampaignData> {
+    return this.request('/campaigns', undefined, { method: 'POST', json: validated(input, 0) });
+  }
+
+  updateCampaign(id: string, changes: CampaignChanges): Promise<CampaignData> {
+    return this.request(`/campaigns/${encodeURIComponent(id)}`, undefined, { method: 'PATCH', json: changes });
+  }
+
+  async deleteCampaign(id: string): Promise<void> {
+    await this.request(`/campaigns/${encodeURIComponent(id)}`, undefined, { method: 'DELETE' });
+  }
+}
+
+// Reads VITE_DATA_SOURCE ("mock" | "rest"), VITE_API_BASE_URL and VITE_MOCK_SEED from the environment
+export const getDataSourceConfig = (env: ImportMetaEnv = import.meta.env): DataSourceConfig => {
+  if (env.VITE_DATA_SOURCE === 'rest') {
+    if (!env.VITE_API_BASE_URL) {
+      throw new DataSourceError('VITE_API_BASE_URL must be set when VITE_DATA_SOURCE is "rest"');
+    }
+    return { type: 'rest', baseUrl: env.VITE_API_BASE_URL };
+  }
+
+  const seed = env.VITE_MOCK_SEED ? Number(env.VITE_MOCK_SEED) : undefined;
+  if (seed !== undefined && !Number.isFinite(seed)) {
+    throw new DataSourceError(`VITE_MOCK_SEED must be a number, got "${env.VITE_MOCK_SEED}"`);
+  }
+
+  return { type: 'mock', latencyMs: 600, options: { seed } };
+};
+
+export const createDataSource = (config: DataSourceConfig): DataSource => {
+  switch (config.type) {
+    case 'rest':
+      return new RestDataSource(config.baseUrl, config.headers);
+    case 'mock':
+    default:
+      return new MockDataSource(config.latencyMs, config.options);
+  }
+};
+
+let activeDataSource: DataSource | null = null;
+
+export const getDataSource = (): DataSource => {
+  if (!activeDataSource) {
+    activeDataSource = createDataSource(getDataSourceConfig());
+  }
+  return activeDataSource;
+};
+
+export const setDataSource = (dataSource: DataSource): void => {
+  activeDataSource = dataSource;
+};
@@ -0,0 +1,236 @@
+// One path for every download in the app. Widgets describe what they can export as an
+// ExportSource (a table of values, a chart drawing, a full report); format adapters turn
+// a source into a file, and downloadFile saves it. Escaping, file names and MIME types
+// live here so cards, charts and the campaign table all behave the same.
+
+import Papa from 'papaparse';
+import { composeChartImage, renderChartPng, type ChartImage, type ImageTheme } from './chartImage';
+import { buildPdfReport } from './pdfReport';
+import type { DashboardReport, ValueFormat } from './report';
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'xlsx' | 'png' | 'svg' | 'pdf';
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  /** How spreadsheet cells are formatted; percentages are stored as 0–100 */
+  format?: ValueFormat;
+}
+
+export type ExportValue = string | number | null | undefined;
+
+export interface ExportTable {
+  columns: ExportColumn[];
+  rows: Array<Record<string, ExportValue>>;
+}
+
+export interface ExportSource {
+  /** Used in file names and messages, e.g. "Revenue Trend" */
+  name: string;
+  table?: () => ExportTable;
+  /** The rendered chart for image exports; null while it has not been drawn */
+  image?: () => ChartImage | null;
+  report?: () => DashboardReport;
+}
+
+export interface ExportOptions {
+  /** Stamped into file names and image captions; defaults to now */
+  at?: Date;
+  /** Pixel ratio for PNG images */
+  scale?: number;
+  theme?: ImageTheme;
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  blob: Blob;
+}
+
+export interface ExportFormatAdapter {
+  format: ExportFormat;
+  /** Groups formats in export menus; image formats also take a theme */
+  kind: 'data' | 'image' | 'document';
+  /** Shown in export menus, e.g. "Excel workbook" */
+  label: string;
+  extension: string;
+  mimeType: string;
+  canExport(source: ExportSource): boolean;
+  render(source: ExportSource, options: ExportOptions & { at: Date }): Promise<BlobPart>;
+}
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export const slugify = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** e.g. "revenue-trend-2024-05-06-1430.csv", stamped in local time */
+export const exportFilename = (name: string, extension: string, at: Date = new Date()): string => {
+  const date = `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+  return `${slugify(name)}-${date}-${pad(at.getHours())}${pad(at.getMinutes())}.${extension}`;
+};
+
+const requireTable = (source: ExportSource): ExportTable => {
+  const table = source.table?.();
+  if (!table) throw new ExportError(`${source.name} has no data to export`);
+  return table;
+};
+
+// Image exports are framed with the chart's title, its legend and when it was exported
+const composeImage = (source: ExportSource, { at, theme }: ExportOptions & { at: Date }) => {
+  const image = source.image?.();
+  if (!image) throw new ExportError(`${source.name} has not been drawn yet`);
+  return composeChartImage(image, {
+    theme,
+    caption: `Exported ${at.toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}`
+  });
+};
+
+// Missing values are written as empty cells rather than 0, and quotes are escaped by Papa
+export const toDelimitedText = (table: ExportTable, delimiter: string): string =>
+  Papa.unparse(
+    {
+      fields: table.columns.map(column => column.label),
+      data: table.rows.map(row => table.columns.map(column => row[column.key] ?? ''))
+    },
+    { delimiter, newline: '\r\n' }
+  );
+
+export const toJson = (table: ExportTable): string =>
+  JSON.stringify(
+    table.rows.map(row => Object.fromEntries(table.columns.map(column => [column.key, row[column.key] ?? null]))),
+    null,
+    2
+  );
+
+const ADAPTERS: ExportFormatAdapter[] = [
+  {
+    format: 'csv',
+    kind: 'data',
+    label: 'CSV',
+    extension: 'csv',
+    mimeType: 'text/csv;charset=utf-8;',
+    canExport: source => !!source.table,
+    render: async source => toDelimitedText(requireTable(source), ',')
+  },
+  {
+    format: 'tsv',
+    kind: 'data',
+    label: 'TSV',
+    extension: 'tsv',
+    mimeType: 'text/tab-separated-values;charset=utf-8;',
+    canExport: source => !!source.table,
+    render: async source => toDelimitedText(requireTable(source), '\t')
+  },
+  {
+    format: 'json',
+    kind: 'data',
+    label: 'JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    canExport: source => !!source.table,
+    render: async source => toJson(requireTable(source))
+  },
+  {
+    format: 'xlsx',
+    kind: 'data',
+    label: 'Excel workbook',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    canExport: source => !!source.report || !!source.table,
+    // The workbook library is large, so it is only loaded when a workbook is requested
+    render: async source => {
+      const { buildTableWorkbook, buildWorkbook } = await import('./xlsxReport');
+      const workbook = source.report
+        ? buildWorkbook(source.report())
+        : buildTableWorkbook(requireTable(source), source.name);
+      return workbook.xlsx.writeBuffer();
+    }
+  },
+  {
+    format: 'png',
+    kind: 'image',
+    label: 'PNG image',
+    extension: 'png',
+    mimeType: 'image/png',
+    canExport: source => !!source.image,
+    render: (source, options) => renderChartPng(composeImage(source, options), options.scale)
+  },
+  {
+    format: 'svg',
+    kind: 'image',
+    label: 'SVG image',
+    extension: 'svg',
+    mimeType: 'image/svg+xml',
+    canExport: source => !!source.image,
+    render: async (source, options) => composeImage(source, options).markup
+  },
+  {
+    format: 'pdf',
+    kind: 'document',
+    label: 'PDF report',
+    extension: 'pdf',
+    mimeType: 'application/pdf',
+    canExport: source => !!source.report,
+    render: async source => {
+      if (!source.report) throw new ExportError(`${source.name} cannot be exported as a PDF`);
+      return buildPdfReport(source.report()).output('arraybuffer');
+    }
+  }
+];
+
+const adapters = new Map<ExportFormat, ExportFormatAdapter>(ADAPTERS.map(adapter => [adapter.format, adapter]));
+
+/** Adds or replaces the adapter for a format */
+export const registerExportFormat = (adapter: ExportFormatAdapter): void => {
+  adapters.set(adapter.format, adapter);
+};
+
+export const getExportFormat = (format: ExportFormat): ExportFormatAdapter => {
+  const adapter = adapters.get(format);
+  if (!adapter) throw new ExportError(`No exporter is registered for ${format.toUpperCase()}`);
+  return adapter;
+};
+
+/** Formats `source` can be exported in, in menu order */
+export const availableExportFormats = (source: ExportSource, formats?: ExportFormat[]): ExportFormatAdapter[] =>
+  Array.from(adapters.values()).filter(adapter =>
+    (!formats || formats.includes(adapter.format)) && adapter.canExport(source)
+  );
+
+export const renderExport = async (
+  source: ExportSource,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): Promise<ExportFile> => {
+  const adapter = getExportFormat(format);
+  if (!adapter.canExport(source)) {
+    throw new ExportError(`${source.name} cannot be exported as ${adapter.label}`);
+  }
+  const at = options.at ?? new Date();
+  return {
+    filename: exportFilename(source.name, adapter.extension, at),
+    mimeType: adapter.mimeType,
+    blob: new Blob([await adapter.render(source, { ...options, at })], { type: adapter.mimeType })
+  };
+};
+
+/** Saves a file through the browser's download prompt */
+export const downloadFile = ({ blob, filename }: ExportFile): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,149 @@
+// Dashboard filter model shared by the filter panel, the data sources and the URL
+
+import { formatDateRange, rangesOverlap, shiftISODateByYears, toISODate, type DateRange } from '@/lib/dates';
+import { previousRange, reportingRange } from './aggregations';
+import { CAMPAIGN_STATUSES, type CampaignData } from './mockData';
+
+export type ComparisonMode = 'previous' | 'year' | 'custom';
+
+export interface ComparisonSetting {
+  mode: ComparisonMode;
+  /** Only used in "custom" mode */
+  range?: DateRange;
+}
+
+export interface DashboardFilters {
+  dateRange: DateRange;
+  /** What the KPI changes and the dashed chart overlays compare the date range against */
+  comparison: ComparisonSetting;
+  clients: string[];
+  status: string[];
+  budgetRange: {
+    min: number;
+    max: number;
+  };
+  /** Campaigns left out of everything the filters select, e.g. ones deleted but still undoable */
+  excludedCampaignIds?: string[];
+}
+
+// Open-ended: the default filter lets every budget through, whatever the data holds
+export const DEFAULT_BUDGET_RANGE = { min: 0, max: Number.MAX_SAFE_INTEGER };
+
+export interface FilterOption {
+  value: string;
+  count: number;
+}
+
+export interface FilterFacets {
+  clients: FilterOption[];
+  statuses: FilterOption[];
+  /** Smallest and largest campaign budget, rounded out to whole thousands */
+  budgetBounds: { min: number; max: number };
+}
+
+export const createDefaultFilters = (today: Date = new Date()): DashboardFilters => ({
+  dateRange: reportingRange(toISODate(today)),
+  comparison: { mode: 'previous' },
+  clients: [],
+  status: [],
+  budgetRange: { ...DEFAULT_BUDGET_RANGE }
+});
+
+/** Everything one client ran over `dateRange`, regardless of budget or status (archived campaigns aside) */
+export const createClientFilters = (client: string, dateRange: DateRange): DashboardFilters => ({
+  dateRange,
+  comparison: { mode: 'previous' },
+  clients: [client],
+  status: [],
+  budgetRange: { ...DEFAULT_BUDGET_RANGE }
+});
+
+/**
+ * Client, status and budget criteria only; the date range is applied to delivery separately.
+ * Without a status filter archived campaigns are left out.
+ */
+export const matchesCampaignFilters = (campaign: CampaignData, filters: DashboardFilters): boolean =>
+  (filters.clients.length === 0 || filters.clients.includes(campaign.client)) &&
+  (filters.status.length === 0 ? campaign.status !== 'archived' : filters.status.includes(campaign.status)) &&
+  campaign.budget >= filters.budgetRange.min &&
+  campaign.budget <= filters.budgetRange.max &&
+  !filters.excludedCampaignIds?.includes(campaign.id);
+
+/** Campaigns matching the filters whose flight overlaps the filter date range */
+export const filterCampaigns = (campaigns: CampaignData[], filters: DashboardFilters): CampaignData[] =>
+  campaigns.filter(campaign =>
+    matchesCampaignFilters(campaign, filters) &&
+    rangesOverlap({ from: campaign.startDate, to: campaign.endDate }, filters.dateRange)
+  );
+
+export const isBudgetFiltered = (filters: DashboardFilters): boolean =>
+  filters.budgetRange.min > DEFAULT_BUDGET_RANGE.min || filters.budgetRange.max < DEFAULT_BUDGET_RANGE.max;
+
+const countBy = (campaigns: CampaignData[], keyOf: (campaign: CampaignData) => string): FilterOption[] => {
+  const counts = new Map<string, number>();
+  for (const campaign of campaigns) {
+    const key = keyOf(campaign);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => a.value.localeCompare(b.value));
+};
+
+/**
+ * Filter options from `campaigns` (the campaigns in the date range). Each facet's counts
+ * apply every other active filter, so a count is how many rows picking that option adds.
+ */
+export const buildFilterFacets = (campaigns: CampaignData[], filters: DashboardFilters): FilterFacets => {
+  const budgets = campaigns.map(campaign => campaign.budget);
+
+  return {
+    clients: countBy(
+      campaigns.filter(campaign => matchesCampaignFilters(campaign, { ...filters, clients: [] })),
+      campaign => campaign.client
+    ),
+    statuses: countBy(
+      campaigns.filter(campaign => matchesCampaignFilters(campaign, { ...filters, status: CAMPAIGN_STATUSES })),
+      campaign => campaign.status
+    ),
+    budgetBounds: budgets.length > 0
+      ? { min: Math.floor(Math.min(...budgets) / 1000) * 1000, max: Math.ceil(Math.max(...budgets) / 1000) * 1000 }
+      : { min: 0, max: 0 }
+  };
+};
+
+export const COMPARISON_MODE_LABELS: Record<ComparisonMode, string> = {
+  previous: 'Previous period',
+  year: 'Same period last year',
+  custom: 'Custom range'
+};
+
+export const resolveComparisonRange = (filters: Pick<DashboardFilters, 'dateRange' | 'comparison'>): DateRange => {
+  const { dateRange, comparison } = filters;
+  switch (comparison.mode) {
+    case 'year':
+      return {
+        from: shiftISODateByYears(dateRange.from, -1),
+        to: shiftISODateByYears(dateRange.to, -1)
+      };
+    case 'custom':
+      if (comparison.range) return comparison.range;
+      return previousRange(dateRange);
+    case 'previous':
+    default:
+      return previousRange(dateRange);
+  }
+};
+
+/** Short caption for comparisons, e.g. "vs last year" */
+export const describeComparison = (filters: Pick<DashboardFilters, 'dateRange' | 'comparison'>): string => {
+  switch (filters.comparison.mode) {
+    case 'year':
+      return 'vs last year';
+    case 'custom':
+      return `vs ${formatDateRange(resolveComparisonRange(filters))}`;
+    case 'previous':
+    default:
+      return 'vs previous period';
+  }
+};
@@ -0,0 +1,26 @@
+// A JSON array of records kept under one Web Storage key, used by the browser-local
+// stores until their data moves to the API.
+
+export class LocalStorageCollection<T extends { id: string }> {
+  constructor(
+    private readonly storageKey: string,
+    private readonly storage: Storage = window.localStorage
+  ) {}
+
+  // Unreadable or foreign data is treated as an empty collection rather than breaking the app
+  read(): T[] {
+    try {
+      const parsed: unknown = JSON.parse(this.storage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(parsed) ? parsed as T[] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  write(items: T[]): void {
+    this.storage.setItem(this.storageKey, JSON.stringify(items));
+  }
+}
+
+export const createRecordId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
@@ -1,5 +1,17 @@
 // Mock Data Service for Ad Agency Dashboard
 
+import { createRandom, hashSeed, randomSeed, type Random } from '@/lib/random';
+import { daysBetween, eachDay, parseISODate, shiftISODate, startOfDay, toISODate } from '@/lib/dates';
+import {
+  buildAdTypeMix,
+  buildChannelBreakdown,
+  buildMetrics,
+  buildTimeSeries,
+  filterEventsByRange,
+  reportingRange,
+  summarizeCampaigns
+} from './aggregations';
+
 export interface MetricData {
   value: number;
   change: number;
@@ -15,6 +27,16 @@ export interface ChartDataPoint {
   conversions?: number;
   clicks?: number;
   impressions?: number;
+  spend?: number;
+  ctr?: number;
+  cpc?: number;
+  /** Derived performance metrics; left off where undefined, e.g. CPA without conversions */
+  cpa?: number;
+  roas?: number;
+  cpm?: number;
+  conversionRate?: number;
+  cumulativeSpend?: number;
+  plannedSpend?: number;
 }
 
 export interface CampaignData {
@@ -26,126 +48,254 @@ export interface CampaignData {
   impressions: number;
   clicks: number;
   conversions: number;
+  /** Attributed conversion value */
+  revenue: number;
   ctr: number;
   cpc: number;
-  status: 'active' | 'paused' | 'completed';
+  /** Archived campaigns are kept but left out of reporting unless asked for */
+  status: 'active' | 'paused' | 'completed' | 'archived';
   startDate: string;
   endDate: string;
 }
 
-// Generate realistic mock data
-export const generateMetrics = (): Record<string, MetricData> => {
-  const baseRevenue = 125000 + Math.random() * 25000;
-  const baseUsers = 45000 + Math.random() * 10000;
-  const baseConversions = 1250 + Math.random() * 250;
-  
+// One advertiser's campaigns rolled up
+export interface ClientSummary {
+  name: string;
+  campaignCount: number;
+  activeCampaigns: number;
+  budget: number;
+  spent: number;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  /** Blended across campaigns: total clicks / total impressions */
+  ctr: number;
+  /** Blended: total spend / total clicks */
+  cpc: number;
+  /** Blended: total spend / total conversions */
+  cpa: number;
+}
+
+// One campaign's delivery on one day; every dashboard aggregate is derived from these
+export interface CampaignDailyStat {
+  campaignId: string;
+  date: string;
+  channel: string;
+  adType: string;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  spend: number;
+  revenue: number;
+}
+
+export interface SimulatedDataset {
+  /** The "today" the data was simulated up to (ISO date) */
+  anchorDate: string;
+  campaigns: CampaignData[];
+  events: CampaignDailyStat[];
+}
+
+export interface MockDataOptions {
+  /** Same seed, same data. Omit for a fresh random seed on every call */
+  seed?: number;
+  /** "Today" for the generated data; defaults to the current date */
+  anchorDate?: Date | string;
+  campaignCount?: number;
+  clients?: string[];
+  channels?: string[];
+}
+
+export const DEFAULT_CLIENTS = ['TechCorp', 'Fashion Plus', 'FoodieApp', 'TravelMax', 'HealthyLife', 'AutoDeals', 'EduLearn', 'HomeStyle'];
+export const DEFAULT_CHANNELS = ['Google Ads', 'Facebook', 'Instagram', 'Twitter', 'LinkedIn', 'YouTube'];
+export const AD_TYPES = ['Display Ads', 'Search Ads', 'Social Media', 'Video Ads', 'Native Ads'];
+export const CAMPAIGN_STATUSES: CampaignData['status'][] = ['active', 'paused', 'completed', 'archived'];
+const CAMPAIGN_TYPES = ['Holiday Sale', 'Brand Awareness', 'Product Launch', 'Retargeting', 'Lead Gen'];
+
+// Ad formats each channel can serve; channels not listed here serve any format
+const CHANNEL_AD_TYPES: Record<string, string[]> = {
+  'Google Ads': ['Search Ads', 'Display Ads'],
+  'Facebook': ['Social Media', 'Display Ads', 'Video Ads'],
+  'Instagram': ['Social Media', 'Video Ads'],
+  'Twitter': ['Social Media', 'Native Ads'],
+  'LinkedIn': ['Social Media', 'Native Ads'],
+  'YouTube': ['Video Ads']
+};
+
+// Long enough for "same period last year" comparisons
+const HISTORY_DAYS = 430;
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Each generator draws from its own stream so its output does not depend on which other generators ran
+export const randomFor = (stream: string | number, options: MockDataOptions): Random =>
+  createRandom(hashSeed(options.seed ?? randomSeed(), stream));
+
+// Dates are computed in UTC so a seed produces the same rows in every time zone
+const resolveAnchorDate = (options: MockDataOptions): string =>
+  toISODate(startOfDay(options.anchorDate ?? new Date()));
+
+interface CampaignPlan {
+  campaign: CampaignData;
+  channel: string;
+  adType: string;
+  /** Last day the campaign delivers (flight end, pause date or today) */
+  lastActiveDate: string;
+  pacing: number;
+  cpm: number;
+  ctr: number;
+  conversionRate: number;
+  /** Revenue per dollar spent; order values follow from it so returns stay plausible */
+  roas: number;
+}
+
+const planCampaign = (index: number, anchorDate: string, random: Random, options: MockDataOptions): CampaignPlan => {
+  const channel = random.pick(options.channels ?? DEFAULT_CHANNELS);
+  const startDate = shiftISODate(anchorDate, -random.int(0, HISTORY_DAYS - 1));
+  const endDate = shiftISODate(startDate, random.int(14, 43));
+
+  let status: CampaignData['status'] = 'active';
+  let lastActiveDate = anchorDate;
+  if (endDate < anchorDate) {
+    status = 'completed';
+    lastActiveDate = endDate;
+  } else if (random.next() < 0.25) {
+    status = 'paused';
+    lastActiveDate = shiftISODate(startDate, random.int(0, daysBetween(startDate, anchorDate)));
+  }
+
   return {
-    revenue: {
-      value: baseRevenue,
-      change: (Math.random() - 0.3) * 20,
-      trend: Math.random() > 0.3 ? 'up' : 'down'
-    },
-    users: {
-      value: baseUsers,
-      change: (Math.random() - 0.2) * 15,
-      trend: Math.random() > 0.2 ? 'up' : 'down'
+    campaign: {
+      id: `campaign-${index + 1}`,
+      name: `Campaign ${index + 1} - ${random.pick(CAMPAIGN_TYPES)}`,
+      client: random.pick(options.clients ?? DEFAULT_CLIENTS),
+      budget: random.int(10000, 109999),
+      spent: 0,
+      impressions: 0,
+      clicks: 0,
+      conversions: 0,
+      revenue: 0,
+      ctr: 0,
+      cpc: 0,
+      status,
+      startDate,
+      endDate
     },
-    conversions: {
-      value: baseConversions,
-      change: (Math.random() - 0.4) * 25,
-      trend: Math.random() > 0.4 ? 'up' : 'down'
-    },
-    growth: {
-      value: 12.5 + (Math.random() - 0.5) * 10,
-      change: (Math.random() - 0.5) * 5,
-      trend: Math.random() > 0.5 ? 'up' : 'down'
-    }
+    channel,
+    adType: random.pick(CHANNEL_AD_TYPES[channel] ?? AD_TYPES),
+    lastActiveDate,
+    pacing: random.between(0.6, 1.1),
+    cpm: random.between(20, 80),
+    ctr: random.between(0.01, 0.06),
+    conversionRate: random.between(0.02, 0.1),
+    roas: random.between(1.5, 5)
   };
 };
 
-export const generateLineChartData = (): ChartDataPoint[] => {
-  const data: ChartDataPoint[] = [];
-  const startDate = new Date();
-  startDate.setDate(startDate.getDate() - 30);
-  
-  for (let i = 0; i < 30; i++) {
-    const date = new Date(startDate);
-    date.setDate(date.getDate() + i);
-    
-    const revenue = 3000 + Math.random() * 2000 + Math.sin(i / 7) * 500;
-    data.push({
-      name: date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
-      date: date.toISOString().split('T')[0],
-      value: revenue,
-      revenue,
-      users: 800 + Math.random() * 400 + Math.sin(i / 5) * 200,
-      conversions: 25 + Math.random() * 20 + Math.sin(i / 3) * 10
+const simulateDelivery = (plan: CampaignPlan, random: Random): CampaignDailyStat[] => {
+  const { campaign } = plan;
+  const dailyBudget = campaign.budget / (daysBetween(campaign.startDate, campaign.endDate) + 1);
+  const events: CampaignDailyStat[] = [];
+  let remaining = campaign.budget;
+
+  for (const date of eachDay({ from: campaign.startDate, to: plan.lastActiveDate })) {
+    const weekday = parseISODate(date).getUTCDay();
+    const seasonality = 1 + Math.sin((weekday / 7) * Math.PI * 2) * 0.15;
+    const spend = roundCents(Math.min(remaining, dailyBudget * plan.pacing * seasonality * random.between(0.8, 1.2)));
+    remaining -= spend;
+
+    const impressions = Math.floor((spend / plan.cpm) * 1000);
+    const clicks = Math.floor(impressions * plan.ctr * random.between(0.85, 1.15));
+    const expectedConversions = clicks * plan.conversionRate;
+    const conversions = Math.floor(expectedConversions * random.between(0.7, 1.3));
+
+    events.push({
+      campaignId: campaign.id,
+      date,
+      channel: plan.channel,
+      adType: plan.adType,
+      impressions,
+      clicks,
+      conversions,
+      spend,
+      revenue: roundCents(spend * plan.roas * (conversions / Math.max(expectedConversions, 1)) * random.between(0.9, 1.1))
     });
   }
-  
-  return data;
-};
 
-export const generateBarChartData = (): ChartDataPoint[] => {
-  const channels = ['Google Ads', 'Facebook', 'Instagram', 'Twitter', 'LinkedIn', 'YouTube'];
-  
-  return channels.map(channel => ({
-    name: channel,
-    value: Math.floor(Math.random() * 50000) + 10000,
-    conversions: Math.floor(Math.random() * 500) + 50,
-    clicks: Math.floor(Math.random() * 5000) + 1000
-  }));
+  return events;
 };
 
-export const generatePieChartData = (): ChartDataPoint[] => {
-  const segments = [
-    { name: 'Display Ads', value: 35 },
-    { name: 'Search Ads', value: 28 },
-    { name: 'Social Media', value: 22 },
-    { name: 'Video Ads', value: 10 },
-    { name: 'Native Ads', value: 5 }
-  ];
-  
-  return segments.map(segment => ({
-    ...segment,
-    value: segment.value + (Math.random() - 0.5) * 10
-  }));
+// Simulates daily delivery for every campaign up to the anchor date
+export const simulateDataset = (options: MockDataOptions = {}): SimulatedDataset => {
+  const seededOptions = { ...options, seed: options.seed ?? randomSeed() };
+  const anchorDate = resolveAnchorDate(seededOptions);
+  const planRandom = randomFor('campaigns', seededOptions);
+  const plans = Array.from({ length: options.campaignCount ?? 240 }, (_, i) =>
+    planCampaign(i, anchorDate, planRandom, seededOptions)
+  );
+
+  const events = plans.flatMap(plan => simulateDelivery(plan, randomFor(plan.campaign.id, seededOptions)));
+
+  return {
+    anchorDate,
+    campaigns: summarizeCampaigns(plans.map(plan => plan.campaign), events),
+    events
+  };
 };
 
-export const generateCampaignData = (): CampaignData[] => {
-  const clients = ['TechCorp', 'Fashion Plus', 'FoodieApp', 'TravelMax', 'HealthyLife', 'AutoDeals', 'EduLearn', 'HomeStyle'];
-  const statuses: CampaignData['status'][] = ['active', 'paused', 'completed'];
-  
-  return Array.from({ length: 50 }, (_, i) => {
-    const budget = Math.floor(Math.random() * 100000) + 10000;
-    const spent = budget * (0.2 + Math.random() * 0.6);
-    const impressions = Math.floor(Math.random() * 1000000) + 100000;
-    const clicks = Math.floor(impressions * (0.01 + Math.random() * 0.05));
-    const conversions = Math.floor(clicks * (0.02 + Math.random() * 0.08));
-    
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - Math.floor(Math.random() * 60));
-    const endDate = new Date(startDate);
-    endDate.setDate(endDate.getDate() + Math.floor(Math.random() * 30) + 14);
-    
+// Adds a burst of same-day delivery to campaigns still running, as if the day had moved on
+export const advanceDataset = (dataset: SimulatedDataset, random: Random): SimulatedDataset => {
+  const budgets = new Map(dataset.campaigns.map(campaign =>
+    [campaign.id, campaign.status === 'active' ? campaign.budget - campaign.spent : 0]
+  ));
+
+  const events = dataset.events.map(event => {
+    const remaining = budgets.get(event.campaignId) ?? 0;
+    if (event.date !== dataset.anchorDate || remaining <= 0) return event;
+
+    const growth = Math.min(random.between(0.02, 0.08), remaining / Math.max(event.spend, 1));
     return {
-      id: `campaign-${i + 1}`,
-      name: `Campaign ${i + 1} - ${['Holiday Sale', 'Brand Awareness', 'Product Launch', 'Retargeting', 'Lead Gen'][Math.floor(Math.random() * 5)]}`,
-      client: clients[Math.floor(Math.random() * clients.length)],
-      budget,
-      spent,
-      impressions,
-      clicks,
-      conversions,
-      ctr: (clicks / impressions) * 100,
-      cpc: spent / clicks,
-      status: statuses[Math.floor(Math.random() * statuses.length)],
-      startDate: startDate.toISOString().split('T')[0],
-      endDate: endDate.toISOString().split('T')[0]
+      ...event,
+      impressions: event.impressions + Math.floor(event.impressions * growth),
+      clicks: event.clicks + Math.floor(event.clicks * growth),
+      conversions: event.conversions + Math.floor(event.conversions * growth),
+      spend: roundCents(event.spend * (1 + growth)),
+      revenue: roundCents(event.revenue * (1 + growth))
     };
   });
+
+  return {
+    ...dataset,
+    campaigns: summarizeCampaigns(dataset.campaigns, events),
+    events
+  };
+};
+
+// Convenience wrappers. Pass a seed when calling more than one of these: without
+// one each call simulates a different dataset and the results will not agree.
+export const generateMetrics = (options: MockDataOptions = {}): Record<string, MetricData> => {
+  const dataset = simulateDataset(options);
+  return buildMetrics(dataset.events, reportingRange(dataset.anchorDate));
+};
+
+export const generateLineChartData = (options: MockDataOptions = {}): ChartDataPoint[] => {
+  const dataset = simulateDataset(options);
+  return buildTimeSeries(dataset.events, reportingRange(dataset.anchorDate));
+};
+
+export const generateBarChartData = (options: MockDataOptions = {}): ChartDataPoint[] => {
+  const dataset = simulateDataset(options);
+  return buildChannelBreakdown(filterEventsByRange(dataset.events, reportingRange(dataset.anchorDate)), options.channels);
+};
+
+export const generatePieChartData = (options: MockDataOptions = {}): ChartDataPoint[] => {
+  const dataset = simulateDataset(options);
+  return buildAdTypeMix(filterEventsByRange(dataset.events, reportingRange(dataset.anchorDate)));
 };
 
+export const generateCampaignData = (options: MockDataOptions = {}): CampaignData[] =>
+  simulateDataset(options).campaigns;
+
 // Real-time data simulation
 export class MockDataService {
   private static instance: MockDataService;
@@ -0,0 +1,428 @@
+// Structured PDF report for the dashboard: cover page, KPI summary, charts drawn as
+// vector graphics and the campaign table as paginated text on landscape pages. Nothing
+// here touches the DOM, so the same builder can run in the browser or in a Node report service.
+
+import jsPDF from 'jspdf';
+import { formatDateRange } from '@/lib/dates';
+import type { CampaignData, ChartDataPoint } from './mockData';
+import { campaignMetric, DERIVED_METRICS, type DerivedMetricId } from './performanceMetrics';
+import {
+  CAMPAIGN_REPORT_METRICS,
+  chartSeriesKeys,
+  derivedMetricFormat,
+  seriesLabel,
+  type DashboardReport,
+  type ReportChart,
+  type ValueFormat
+} from './report';
+
+type RGB = [number, number, number];
+
+// A4 portrait, in millimetres
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SPACE = 12;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_SPACE;
+// The campaign table gets landscape pages so every column fits
+const TABLE_CONTENT_WIDTH = PAGE_HEIGHT - MARGIN * 2;
+const TABLE_CONTENT_BOTTOM = PAGE_WIDTH - MARGIN - FOOTER_SPACE;
+
+// The dashboard theme colours (--primary, --success, --warning, --info, --danger)
+const SERIES_COLORS: RGB[] = [[99, 102, 241], [34, 197, 94], [245, 158, 11], [59, 130, 246], [239, 68, 68]];
+const TEXT: RGB = [17, 24, 39];
+const MUTED: RGB = [107, 114, 128];
+const BORDER: RGB = [229, 231, 235];
+const HEADER_FILL: RGB = [243, 244, 246];
+const POSITIVE: RGB = [22, 163, 74];
+const NEGATIVE: RGB = [220, 38, 38];
+
+const formatValue = (value: number, format: ValueFormat | undefined, compact = false): string => {
+  switch (format) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        notation: compact ? 'compact' : 'standard',
+        maximumFractionDigits: compact || Math.abs(value) >= 100 ? 0 : 2
+      }).format(value);
+    case 'percentage':
+      return `${value.toFixed(compact ? 1 : 2)}%`;
+    case 'ratio':
+      return `${value.toFixed(compact ? 1 : 2)}x`;
+    default:
+      return new Intl.NumberFormat('en-US', {
+        notation: compact ? 'compact' : 'standard',
+        maximumFractionDigits: compact ? 1 : 0
+      }).format(value);
+  }
+};
+
+/** Rounds the axis maximum up to 1, 2, 2.5 or 5 times a power of ten */
+const niceMax = (max: number): number => {
+  if (max <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(max));
+  const step = [1, 2, 2.5, 5, 10].find(multiple => multiple * magnitude >= max) ?? 10;
+  return step * magnitude;
+};
+
+// Lightens a series colour for area fills; plain PDF fills have no transparency
+const tint = ([r, g, b]: RGB, amount: number): RGB => [
+  Math.round(r + (255 - r) * amount),
+  Math.round(g + (255 - g) * amount),
+  Math.round(b + (255 - b) * amount)
+];
+
+interface TableColumn {
+  header: string;
+  width: number;
+  align: 'left' | 'right';
+  /** Pacing is measured as of `asOf`, the report's last day */
+  value: (campaign: CampaignData, asOf: string) => string;
+}
+
+const metricColumn = (metric: DerivedMetricId, width: number): TableColumn => ({
+  header: DERIVED_METRICS[metric].label,
+  width,
+  align: 'right',
+  value: (c, asOf) => {
+    const value = campaignMetric(c, metric, asOf);
+    return value === null ? '—' : formatValue(value, derivedMetricFormat(metric));
+  }
+});
+
+const METRIC_COLUMN_WIDTHS: Record<DerivedMetricId, number> = {
+  cpa: 12, roas: 11, cpm: 12, conversionRate: 17, utilisation: 20, pacing: 15
+};
+
+const CAMPAIGN_COLUMNS: TableColumn[] = [
+  { header: 'Campaign', width: 31, align: 'left', value: c => c.name },
+  { header: 'Client', width: 21, align: 'left', value: c => c.client },
+  { header: 'Status', width: 16, align: 'left', value: c => c.status },
+  { header: 'Budget', width: 16, align: 'right', value: c => formatValue(c.budget, 'currency') },
+  { header: 'Spent', width: 16, align: 'right', value: c => formatValue(c.spent, 'currency') },
+  { header: 'Revenue', width: 16, align: 'right', value: c => formatValue(c.revenue, 'currency') },
+  { header: 'Impr.', width: 15, align: 'right', value: c => formatValue(c.impressions, 'number') },
+  { header: 'Clicks', width: 14, align: 'right', value: c => formatValue(c.clicks, 'number') },
+  { header: 'Conv.', width: 12, align: 'right', value: c => formatValue(c.conversions, 'number') },
+  { header: 'CTR', width: 11, align: 'right', value: c => formatValue(c.ctr, 'percentage') },
+  { header: 'CPC', width: 11, align: 'right', value: c => formatValue(c.cpc, 'currency') },
+  ...CAMPAIGN_REPORT_METRICS.map(metric => metricColumn(metric, METRIC_COLUMN_WIDTHS[metric]))
+];
+
+class PdfReportWriter {
+  readonly doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+  private y = MARGIN;
+  private contentBottom = CONTENT_BOTTOM;
+
+  constructor(private readonly report: DashboardReport) {}
+
+  build(): jsPDF {
+    this.writeCover();
+    this.newPage();
+    this.writeMetrics();
+    this.report.charts.forEach(chart => this.writeChart(chart));
+    this.writeCampaignTable();
+    this.writeFooters();
+    return this.doc;
+  }
+
+  private newPage(orientation: 'portrait' | 'landscape' = 'portrait') {
+    this.doc.addPage('a4', orientation);
+    this.y = MARGIN;
+    this.contentBottom = orientation === 'landscape' ? TABLE_CONTENT_BOTTOM : CONTENT_BOTTOM;
+  }
+
+  /** Starts a new page unless `height` more millimetres fit on the current one */
+  private ensureSpace(height: number) {
+    if (this.y + height > this.contentBottom) this.newPage();
+  }
+
+  private setText(size: number, color: RGB = TEXT, style: 'normal' | 'bold' = 'normal') {
+    this.doc.setFont('helvetica', style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  /** Shortens text with an ellipsis so it fits `width` at the current font size */
+  private fit(text: string, width: number): string {
+    if (this.doc.getTextWidth(text) <= width) return text;
+    let shortened = text;
+    while (shortened.length > 1 && this.doc.getTextWidth(`${shortened}...`) > width) {
+      shortened = shortened.slice(0, -1);
+    }
+    return `${shortened}...`;
+  }
+
+  private writeHeading(text: string) {
+    this.setText(14, TEXT, 'bold');
+    this.doc.text(text, MARGIN, this.y + 5);
+    this.y += 10;
+  }
+
+  private writeCover() {
+    const { doc, report } = this;
+    doc.setFillColor(...SERIES_COLORS[0]);
+    doc.rect(0, 0, PAGE_WIDTH, 90, 'F');
+
+    this.setText(28, [255, 255, 255], 'bold');
+    doc.text(doc.splitTextToSize(report.title, CONTENT_WIDTH), MARGIN, 50);
+    if (report.subtitle) {
+      this.setText(13, [255, 255, 255]);
+      doc.text(report.subtitle, MARGIN, 72);
+    }
+
+    const details: Array<[string, string]> = [
+      ['Reporting period', formatDateRange(report.dateRange)],
+      ['Compared', report.comparisonLabel],
+      ['Campaigns', report.campaigns.length.toLocaleString()],
+      ['Generated', (report.generatedAt ?? new Date()).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })]
+    ];
+    details.forEach(([label, value], index) => {
+      const y = 115 + index * 16;
+      this.setText(10, MUTED);
+      doc.text(label.toUpperCase(), MARGIN, y);
+      this.setText(13, TEXT, 'bold');
+      doc.text(value, MARGIN, y + 6);
+    });
+  }
+
+  private writeMetrics() {
+    const { doc, report } = this;
+    if (report.metrics.length === 0) return;
+    this.writeHeading('Key Metrics');
+
+    const columns = 2;
+    const gap = 6;
+    const boxWidth = (CONTENT_WIDTH - gap * (columns - 1)) / columns;
+    const boxHeight = 26;
+
+    report.metrics.forEach((metric, index) => {
+      const x = MARGIN + (index % columns) * (boxWidth + gap);
+      const y = this.y + Math.floor(index / columns) * (boxHeight + gap);
+      doc.setDrawColor(...BORDER);
+      doc.roundedRect(x, y, boxWidth, boxHeight, 2, 2, 'S');
+
+      this.setText(9, MUTED);
+      doc.text(metric.label, x + 5, y + 7);
+      this.setText(16, TEXT, 'bold');
+      doc.text(formatValue(metric.data.value, metric.format), x + 5, y + 16);
+
+      const { change, trend } = metric.data;
+      const [rising, falling] = metric.lowerIsBetter ? [NEGATIVE, POSITIVE] : [POSITIVE, NEGATIVE];
+      this.setText(9, trend === 'up' ? rising : trend === 'down' ? falling : MUTED);
+      doc.text(`${change > 0 ? '+' : ''}${change.toFixed(1)}% ${report.comparisonLabel}`, x + 5, y + 22);
+    });
+
+    this.y += Math.ceil(report.metrics.length / columns) * (boxHeight + gap) + 4;
+  }
+
+  private writeChart(chart: ReportChart) {
+    const keys = chartSeriesKeys(chart);
+    const plotHeight = 65;
+    this.ensureSpace(10 + plotHeight + 14);
+    this.writeHeading(chart.title);
+
+    if (chart.data.length === 0) {
+      this.setText(9, MUTED);
+      this.doc.text('No data for this period', MARGIN, this.y + 4);
+      this.y += 12;
+      return;
+    }
+
+    if (chart.type === 'pie') {
+      this.drawPie(chart, plotHeight);
+    } else {
+      this.drawCartesian(chart, keys, plotHeight);
+      this.drawLegend(keys.map(key => seriesLabel(chart, key)));
+    }
+    this.y += 6;
+  }
+
+  private drawCartesian(chart: ReportChart, keys: string[], plotHeight: number) {
+    const { doc } = this;
+    const axisWidth = 16;
+    const left = MARGIN + axisWidth;
+    const width = CONTENT_WIDTH - axisWidth;
+    const top = this.y;
+    const bottom = top + plotHeight;
+    const values = chart.data.flatMap(point => keys.map(key => point[key as keyof ChartDataPoint])).filter((v): v is number => typeof v === 'number');
+    const max = niceMax(Math.max(0, ...values));
+    const toY = (value: number) => bottom - (value / max) * plotHeight;
+
+    // Grid and y-axis labels
+    this.setText(7, MUTED);
+    doc.setLineWidth(0.1);
+    for (let tick = 0; tick <= 4; tick++) {
+      const value = (max / 4) * tick;
+      doc.setDrawColor(...BORDER);
+      doc.line(left, toY(value), left + width, toY(value));
+      doc.text(formatValue(value, chart.valueFormat, true), left - 2, toY(value) + 1, { align: 'right' });
+    }
+
+    const count = chart.data.length;
+    const slot = width / count;
+    const xFor = (index: number) => (chart.type === 'bar' ? left + slot * (index + 0.5) : left + (count === 1 ? width / 2 : (index / (count - 1)) * width));
+
+    // X-axis labels, thinned to about eight
+    const every = Math.ceil(count / 8);
+    chart.data.forEach((point, index) => {
+      if (index % every !== 0) return;
+      doc.text(this.fit(point.name, slot * every - 1), xFor(index), bottom + 4, { align: 'center' });
+    });
+
+    const seriesPoints = keys.map(key => chart.data.map((point, index) => {
+      const value = point[key as keyof ChartDataPoint];
+      return typeof value === 'number' ? { x: xFor(index), y: toY(value) } : null;
+    }));
+
+    // Area fills go down first so no fill covers another series' line
+    if (chart.type === 'area') {
+      seriesPoints.forEach((points, series) => {
+        const defined = points.filter((point): point is { x: number; y: number } => point !== null);
+        if (defined.length < 2) return;
+        doc.setFillColor(...tint(SERIES_COLORS[series % SERIES_COLORS.length], 0.75));
+        doc.moveTo(defined[0].x, bottom);
+        defined.forEach(point => doc.lineTo(point.x, point.y));
+        doc.lineTo(defined[defined.length - 1].x, bottom);
+        doc.close();
+        doc.fill();
+      });
+    }
+
+    doc.setLineWidth(0.5);
+    seriesPoints.forEach((points, series) => {
+      const color = SERIES_COLORS[series % SERIES_COLORS.length];
+
+      if (chart.type === 'bar') {
+        const barWidth = (slot * 0.7) / keys.length;
+        doc.setFillColor(...color);
+        points.forEach((point, index) => {
+          if (!point) return;
+          const x = left + slot * index + slot * 0.15 + barWidth * series;
+          doc.rect(x, point.y, barWidth, bottom - point.y, 'F');
+        });
+        return;
+      }
+
+      doc.setDrawColor(...color);
+      // Gaps in the series (days without data) break the line
+      points.forEach((point, index) => {
+        const previous = points[index - 1];
+        if (point && previous) doc.line(previous.x, previous.y, point.x, point.y);
+      });
+    });
+
+    doc.setDrawColor(...MUTED);
+    doc.setLineWidth(0.2);
+    doc.line(left, bottom, left + width, bottom);
+    this.y = bottom + 8;
+  }
+
+  private drawPie(chart: ReportChart, plotHeight: number) {
+    const { doc } = this;
+    const radius = plotHeight / 2 - 2;
+    const cx = MARGIN + radius + 10;
+    const cy = this.y + plotHeight / 2;
+    const total = chart.data.reduce((sum, point) => sum + (point.value ?? 0), 0);
+
+    let angle = -Math.PI / 2;
+    chart.data.forEach((point, index) => {
+      const share = total > 0 ? (point.value ?? 0) / total : 0;
+      const end = angle + share * Math.PI * 2;
+      const color = SERIES_COLORS[index % SERIES_COLORS.length];
+
+      doc.setFillColor(...color);
+      doc.moveTo(cx, cy);
+      for (let a = angle; a < end; a += Math.PI / 90) {
+        doc.lineTo(cx + radius * Math.cos(a), cy + radius * Math.sin(a));
+      }
+      doc.lineTo(cx + radius * Math.cos(end), cy + radius * Math.sin(end));
+      doc.close();
+      doc.fill();
+
+      // Legend with shares to the right of the pie
+      const legendY = this.y + 6 + index * 7;
+      const legendX = cx + radius + 20;
+      doc.rect(legendX, legendY - 3, 3, 3, 'F');
+      this.setText(9);
+      doc.text(point.name, legendX + 5, legendY);
+      this.setText(9, MUTED);
+      doc.text(`${(share * 100).toFixed(1)}%  ${formatValue(point.value ?? 0, chart.valueFormat)}`, MARGIN + CONTENT_WIDTH, legendY, { align: 'right' });
+      angle = end;
+    });
+
+    this.y += plotHeight;
+  }
+
+  private drawLegend(labels: string[]) {
+    let x = MARGIN + 16;
+    this.setText(8);
+    labels.forEach((label, index) => {
+      this.doc.setFillColor(...SERIES_COLORS[index % SERIES_COLORS.length]);
+      this.doc.rect(x, this.y - 2.5, 3, 3, 'F');
+      this.doc.text(label, x + 5, this.y);
+      x += this.doc.getTextWidth(label) + 12;
+    });
+    this.y += 2;
+  }
+
+  private writeCampaignTable() {
+    const { doc } = this;
+    const rowHeight = 6;
+    const padding = 1.5;
+
+    const drawRow = (cells: string[], fill?: RGB) => {
+      if (fill) {
+        doc.setFillColor(...fill);
+        doc.rect(MARGIN, this.y, TABLE_CONTENT_WIDTH, rowHeight, 'F');
+      }
+      let x = MARGIN;
+      CAMPAIGN_COLUMNS.forEach((column, index) => {
+        const text = this.fit(cells[index], column.width - padding * 2);
+        const textX = column.align === 'right' ? x + column.width - padding : x + padding;
+        doc.text(text, textX, this.y + 4, { align: column.align });
+        x += column.width;
+      });
+      doc.setDrawColor(...BORDER);
+      doc.setLineWidth(0.1);
+      doc.line(MARGIN, this.y + rowHeight, MARGIN + TABLE_CONTENT_WIDTH, this.y + rowHeight);
+      this.y += rowHeight;
+    };
+    const drawHeader = () => {
+      this.setText(7.5, TEXT, 'bold');
+      drawRow(CAMPAIGN_COLUMNS.map(column => column.header), HEADER_FILL);
+      this.setText(7.5);
+    };
+
+    this.newPage('landscape');
+    this.writeHeading(`Campaigns (${this.report.campaigns.length})`);
+    drawHeader();
+    this.report.campaigns.forEach(campaign => {
+      // Every page of the table starts with the column headers
+      if (this.y + rowHeight > this.contentBottom) {
+        this.newPage('landscape');
+        drawHeader();
+      }
+      drawRow(CAMPAIGN_COLUMNS.map(column => column.value(campaign, this.report.dateRange.to)));
+    });
+  }
+
+  // Page numbers need the final page count, so footers go on once everything is laid out
+  private writeFooters() {
+    const { doc, report } = this;
+    const pages = doc.getNumberOfPages();
+    for (let page = 2; page <= pages; page++) {
+      doc.setPage(page);
+      // Campaign table pages are landscape
+      const width = doc.internal.pageSize.getWidth();
+      const height = doc.internal.pageSize.getHeight();
+      this.setText(8, MUTED);
+      doc.text(`${report.title} · ${formatDateRange(report.dateRange)}`, MARGIN, height - MARGIN);
+      doc.text(`Page ${page} of ${pages}`, width - MARGIN, height - MARGIN, { align: 'right' });
+    }
+  }
+}
+
+export const buildPdfReport = (report: DashboardReport): jsPDF => new PdfReportWriter(report).build();
@@ -0,0 +1,107 @@
+// Performance metrics derived from delivery: cost per acquisition, return on ad spend,
+// cost per thousand impressions and conversion rate, plus how much of a budget is spent
+// and whether spend is keeping pace with the flight. Campaign rows, totals, KPI cards,
+// charts and exports all derive them here so they agree with each other.
+
+import { daysBetween, toISODate } from '@/lib/dates';
+import type { CampaignTotals, DeliveryTotals } from './aggregations';
+import type { CampaignData } from './mockData';
+
+export type PerformanceMetricId = 'cpa' | 'roas' | 'cpm' | 'conversionRate';
+export type BudgetMetricId = 'utilisation' | 'pacing';
+export type DerivedMetricId = PerformanceMetricId | BudgetMetricId;
+
+/** null where a metric is undefined, e.g. cost per acquisition without conversions */
+export type DerivedMetrics = Record<DerivedMetricId, number | null>;
+
+export interface DerivedMetricDefinition {
+  label: string;
+  description: string;
+  /** Currency per unit, a multiple of spend ("3.2x") or a percentage */
+  format: 'currency' | 'ratio' | 'percent';
+  /** Costs improve as they fall */
+  lowerIsBetter?: boolean;
+}
+
+export const DERIVED_METRICS: Record<DerivedMetricId, DerivedMetricDefinition> = {
+  cpa: { label: 'CPA', description: 'Spend per conversion', format: 'currency', lowerIsBetter: true },
+  roas: { label: 'ROAS', description: 'Revenue per dollar spent', format: 'ratio' },
+  cpm: { label: 'CPM', description: 'Spend per thousand impressions', format: 'currency', lowerIsBetter: true },
+  conversionRate: { label: 'Conv. Rate', description: 'Conversions per click', format: 'percent' },
+  utilisation: { label: 'Budget Used', description: 'Spend as a share of budget', format: 'percent' },
+  pacing: { label: 'Pacing', description: 'Spend against the spend planned to date', format: 'percent' }
+};
+
+export const DERIVED_METRIC_IDS = Object.keys(DERIVED_METRICS) as DerivedMetricId[];
+
+export const isDerivedMetric = (key: string): key is DerivedMetricId => (DERIVED_METRIC_IDS as string[]).includes(key);
+
+const ratio = (numerator: number, denominator: number, scale: number = 1) =>
+  (denominator > 0 ? (numerator / denominator) * scale : null);
+
+export const performanceMetrics = (
+  { spend, revenue, impressions, clicks, conversions }: DeliveryTotals
+): Record<PerformanceMetricId, number | null> => ({
+  cpa: ratio(spend, conversions),
+  roas: ratio(revenue, spend),
+  cpm: ratio(spend, impressions, 1000),
+  conversionRate: ratio(conversions, clicks, 100)
+});
+
+/** Spend planned by the end of `asOf` when the budget is spread evenly over the flight */
+export const plannedSpend = (
+  { budget, startDate, endDate }: Pick<CampaignData, 'budget' | 'startDate' | 'endDate'>,
+  asOf: string
+): number => {
+  const flightDays = daysBetween(startDate, endDate) + 1;
+  if (flightDays <= 0) return 0;
+  const elapsedDays = Math.min(Math.max(daysBetween(startDate, asOf) + 1, 0), flightDays);
+  return (budget * elapsedDays) / flightDays;
+};
+
+/** Percentages of the budget spent and of the spend planned to date */
+export const budgetMetrics = (spent: number, budget: number, planned: number): Record<BudgetMetricId, number | null> => ({
+  utilisation: ratio(spent, budget, 100),
+  pacing: ratio(spent, planned, 100)
+});
+
+const campaignDelivery = (campaign: CampaignData): DeliveryTotals => ({
+  spend: campaign.spent,
+  revenue: campaign.revenue,
+  impressions: campaign.impressions,
+  clicks: campaign.clicks,
+  conversions: campaign.conversions
+});
+
+/** One metric for one campaign, paced against `asOf` (today unless given) */
+export const campaignMetric = (campaign: CampaignData, metric: DerivedMetricId, asOf: string = toISODate(new Date())): number | null => {
+  switch (metric) {
+    case 'utilisation':
+      return ratio(campaign.spent, campaign.budget, 100);
+    case 'pacing':
+      return ratio(campaign.spent, plannedSpend(campaign, asOf), 100);
+    default:
+      return performanceMetrics(campaignDelivery(campaign))[metric];
+  }
+};
+
+export const campaignMetrics = (campaign: CampaignData, asOf: string = toISODate(new Date())): DerivedMetrics => ({
+  ...performanceMetrics(campaignDelivery(campaign)),
+  ...budgetMetrics(campaign.spent, campaign.budget, plannedSpend(campaign, asOf))
+});
+
+/** The metrics of a set of campaigns, blended from their summed figures */
+export const totalsMetrics = (totals: CampaignTotals): DerivedMetrics => ({
+  ...performanceMetrics({ ...totals, spend: totals.spent }),
+  ...budgetMetrics(totals.spent, totals.budget, totals.plannedSpend)
+});
+
+export type CampaignValueKey = keyof CampaignData | DerivedMetricId;
+
+/** A stored campaign field or a derived metric, e.g. to sort or filter the campaign table by either */
+export const campaignValue = (
+  campaign: CampaignData,
+  key: CampaignValueKey,
+  asOf?: string
+): CampaignData[keyof CampaignData] | null =>
+  (isDerivedMetric(key) ? campaignMetric(campaign, key, asOf) : campaign[key]);
@@ -0,0 +1,177 @@
+// The dashboard report: the figures behind one dashboard view, shared by the PDF and
+// workbook exports so both formats always contain the same numbers.
+
+import { daysBetween, type DateRange } from '@/lib/dates';
+import type { DataSource } from './dataSource';
+import type { ExportTable } from './exportPipeline';
+import { describeComparison, type DashboardFilters } from './filters';
+import type { CampaignData, ChartDataPoint, MetricData } from './mockData';
+import { DERIVED_METRICS, type DerivedMetricDefinition, type DerivedMetricId } from './performanceMetrics';
+
+/** Ratios are multiples such as ROAS, written "3.25x" */
+export type ValueFormat = 'currency' | 'number' | 'percentage' | 'ratio';
+
+const DERIVED_METRIC_FORMATS: Record<DerivedMetricDefinition['format'], ValueFormat> = {
+  currency: 'currency',
+  ratio: 'ratio',
+  percent: 'percentage'
+};
+
+/** How a derived metric such as CPA is written in reports */
+export const derivedMetricFormat = (metric: DerivedMetricId): ValueFormat => DERIVED_METRIC_FORMATS[DERIVED_METRICS[metric].format];
+
+/** Derived metrics in the report's campaign tables, after the stored figures */
+export const CAMPAIGN_REPORT_METRICS: DerivedMetricId[] = ['cpa', 'roas', 'cpm', 'conversionRate', 'utilisation', 'pacing'];
+
+export interface ReportMetric {
+  label: string;
+  data: MetricData;
+  format: ValueFormat;
+  /** A fall is an improvement, e.g. for cost per acquisition */
+  lowerIsBetter?: boolean;
+}
+
+export interface ReportChart {
+  title: string;
+  type: 'line' | 'area' | 'bar' | 'pie';
+  data: ChartDataPoint[];
+  /** Series to plot; pie charts always plot `value` */
+  dataKeys?: string[];
+  /** Display names for series keys, e.g. { value: 'Revenue' } */
+  seriesLabels?: Record<string, string>;
+  /** Format of the chart's value axis */
+  valueFormat?: ValueFormat;
+  /** Per-series formats where they differ from `valueFormat`, used for workbook cells */
+  seriesFormats?: Record<string, ValueFormat>;
+}
+
+export interface DashboardReport {
+  title: string;
+  subtitle?: string;
+  dateRange: DateRange;
+  comparisonLabel: string;
+  generatedAt?: Date;
+  metrics: ReportMetric[];
+  charts: ReportChart[];
+  campaigns: CampaignData[];
+}
+
+export const chartSeriesKeys = (chart: ReportChart): string[] =>
+  chart.type === 'pie' ? ['value'] : chart.dataKeys ?? ['value'];
+
+export const seriesLabel = (chart: ReportChart, key: string): string =>
+  chart.seriesLabels?.[key] ?? key.charAt(0).toUpperCase() + key.slice(1);
+
+export const seriesFormat = (chart: ReportChart, key: string): ValueFormat | undefined =>
+  chart.seriesFormats?.[key] ?? chart.valueFormat;
+
+/** Headline metrics as an exportable table; values are raw numbers and changes are percentages */
+export const metricsExportTable = (metrics: ReportMetric[], comparisonLabel: string): ExportTable => ({
+  columns: [
+    { key: 'metric', label: 'Metric' },
+    { key: 'value', label: 'Value' },
+    { key: 'change', label: 'Change (%)', format: 'percentage' },
+    { key: 'comparedTo', label: 'Compared To' },
+    { key: 'trend', label: 'Trend' }
+  ],
+  rows: metrics.map(metric => ({
+    metric: metric.label,
+    value: metric.data.value,
+    change: metric.data.change,
+    comparedTo: comparisonLabel,
+    trend: metric.data.trend
+  }))
+});
+
+/** What the dashboard's data source returns for one set of filters */
+export interface DashboardReportData {
+  metrics: Partial<Record<string, MetricData>>;
+  timeSeries: ChartDataPoint[];
+  channels: ChartDataPoint[];
+  adTypes: ChartDataPoint[];
+  campaigns: CampaignData[];
+}
+
+export interface DashboardReportOptions {
+  title?: string;
+  generatedAt?: Date;
+  /** Series hidden on the dashboard's charts, keyed by chart id, are left out of the report */
+  hiddenSeries?: Record<string, string[]>;
+}
+
+export const TREND_SERIES = ['revenue', 'users', 'conversions'];
+export const CHANNEL_SERIES = ['value', 'conversions'];
+
+export const trendChartTitle = (filters: DashboardFilters) =>
+  `Revenue Trend (${daysBetween(filters.dateRange.from, filters.dateRange.to) + 1} Days)`;
+
+/** The dashboard as a report: the headline metrics, its three charts and the campaign table */
+export const createDashboardReport = (
+  filters: DashboardFilters,
+  data: DashboardReportData,
+  { title = 'Campaign Performance Report', generatedAt, hiddenSeries = {} }: DashboardReportOptions = {}
+): DashboardReport => {
+  const visible = (chart: string, keys: string[]) => keys.filter(key => !hiddenSeries[chart]?.includes(key));
+  const metrics: ReportMetric[] = [
+    { label: 'Total Revenue', data: data.metrics.revenue, format: 'currency' },
+    { label: 'Active Users', data: data.metrics.users, format: 'number' },
+    { label: 'Conversions', data: data.metrics.conversions, format: 'number' },
+    { label: 'Growth Rate', data: data.metrics.growth, format: 'percentage' },
+    { label: 'ROAS', data: data.metrics.roas, format: 'ratio' },
+    { label: 'CPA', data: data.metrics.cpa, format: 'currency', lowerIsBetter: true },
+    { label: 'CPM', data: data.metrics.cpm, format: 'currency', lowerIsBetter: true },
+    { label: 'Conversion Rate', data: data.metrics.conversionRate, format: 'percentage' }
+  ];
+
+  return {
+    title,
+    subtitle: filters.clients.length > 0 ? filters.clients.join(', ') : 'All clients',
+    dateRange: filters.dateRange,
+    comparisonLabel: describeComparison(filters),
+    generatedAt,
+    metrics: metrics.filter(metric => metric.data),
+    charts: [
+      {
+        title: trendChartTitle(filters),
+        type: 'line',
+        data: data.timeSeries,
+        dataKeys: visible('trend', TREND_SERIES),
+        valueFormat: 'currency',
+        seriesFormats: { users: 'number', conversions: 'number' }
+      },
+      {
+        title: 'Performance by Channel',
+        type: 'bar',
+        data: data.channels,
+        dataKeys: visible('channels', CHANNEL_SERIES),
+        seriesLabels: { value: 'Revenue' },
+        valueFormat: 'number',
+        seriesFormats: { value: 'currency' }
+      },
+      {
+        title: 'Ad Type Distribution',
+        type: 'pie',
+        data: data.adTypes,
+        seriesLabels: { value: 'Share of Spend' },
+        valueFormat: 'percentage'
+      }
+    ],
+    campaigns: data.campaigns
+  };
+};
+
+/** Queries everything a report needs, for exports produced away from the dashboard page */
+export const fetchDashboardReport = async (
+  dataSource: DataSource,
+  filters: DashboardFilters,
+  options?: DashboardReportOptions
+): Promise<DashboardReport> => {
+  const [metrics, timeSeries, channels, adTypes, campaigns] = await Promise.all([
+    dataSource.getMetrics(filters),
+    dataSource.getTimeSeries(filters),
+    dataSource.getChannelBreakdown(filters),
+    dataSource.getAdTypeMix(filters),
+    dataSource.getCampaigns(filters)
+  ]);
+  return createDashboardReport(filters, { metrics, timeSeries, channels, adTypes, campaigns }, options);
+};
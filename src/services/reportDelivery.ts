@@ -0,0 +1,70 @@
+// Where scheduled reports go once they are produced. Adapters are swappable so an
+// email or storage integration can replace the local stand-ins without touching the
+// scheduler.
+
+import { downloadFile } from './exportPipeline';
+import type { ReportFile } from './reportFiles';
+import type { ReportSubscription } from './reportSubscriptions';
+
+export interface ReportDelivery {
+  subscription: ReportSubscription;
+  file: ReportFile;
+  /** When the run was due, which may be earlier than now if the app was closed */
+  scheduledFor: Date;
+}
+
+export interface ReportDeliveryAdapter {
+  /** Shown in the UI, e.g. "Browser download" */
+  readonly label: string;
+  deliver(delivery: ReportDelivery): Promise<void>;
+}
+
+/** Drops each report into the browser's downloads folder */
+export class FileDropDeliveryAdapter implements ReportDeliveryAdapter {
+  readonly label = 'Browser download';
+
+  async deliver({ file }: ReportDelivery): Promise<void> {
+    downloadFile(file);
+  }
+}
+
+export interface OutboxMessage {
+  to: string[];
+  subject: string;
+  body: string;
+  attachment: { filename: string; mimeType: string; size: number };
+  sentAt: string;
+}
+
+/**
+ * SMTP stand-in: builds the message each recipient would get and keeps it in an
+ * in-memory outbox instead of sending it.
+ */
+export class OutboxDeliveryAdapter implements ReportDeliveryAdapter {
+  readonly label = 'Email outbox (not sent)';
+  readonly outbox: OutboxMessage[] = [];
+
+  async deliver({ subscription, file, scheduledFor }: ReportDelivery): Promise<void> {
+    const message: OutboxMessage = {
+      to: subscription.recipients,
+      subject: `${subscription.name} – ${scheduledFor.toLocaleDateString('en-US', { dateStyle: 'medium' })}`,
+      body: `Attached is the scheduled "${subscription.name}" report.`,
+      attachment: { filename: file.filename, mimeType: file.mimeType, size: file.blob.size },
+      sentAt: new Date().toISOString()
+    };
+    this.outbox.push(message);
+  }
+}
+
+let activeDeliveryAdapter: ReportDeliveryAdapter | null = null;
+
+export const getDeliveryAdapter = (): ReportDeliveryAdapter => {
+  if (!activeDeliveryAdapter) {
+    activeDeliveryAdapter = new FileDropDeliveryAdapter();
+  }
+  return activeDeliveryAdapter;
+};
+
+export const setDeliveryAdapter = (adapter: ReportDeliveryAdapter): void => {
+  activeDeliveryAdapter = adapter;
+};
@@ -0,0 +1,34 @@
+// Renders a dashboard report to a file in one of the export formats, without
+// downloading it, so scheduled reports can hand the file to a delivery adapter.
+
+import { buildCampaignCsv, DEFAULT_CSV_EXPORT_OPTIONS, encodeCsv } from './csvExport';
+import { renderExport, type ExportFile } from './exportPipeline';
+import type { DashboardReport } from './report';
+
+export type ReportFormat = 'pdf' | 'csv' | 'xlsx';
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: 'PDF report',
+  csv: 'CSV (campaigns)',
+  xlsx: 'Excel workbook'
+};
+
+export type ReportFile = ExportFile;
+
+/** `basename` is used without an extension, e.g. "weekly-summary-2024-05-06" */
+export const renderReportFile = async (
+  report: DashboardReport,
+  format: ReportFormat,
+  basename: string
+): Promise<ReportFile> => {
+  const filename = `${basename}.${format}`;
+
+  // A report's CSV is its campaign table, written like the table's own CSV export
+  if (format === 'csv') {
+    const blob = encodeCsv(buildCampaignCsv(report.campaigns, DEFAULT_CSV_EXPORT_OPTIONS), DEFAULT_CSV_EXPORT_OPTIONS);
+    return { filename, mimeType: blob.type, blob };
+  }
+
+  const file = await renderExport({ name: report.title, report: () => report }, format);
+  return { ...file, filename };
+};
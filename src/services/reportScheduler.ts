@@ -0,0 +1,148 @@
+// Produces subscribed reports on time while the app is open: every interval it looks for
+// enabled subscriptions whose next run has passed, builds the report from the active
+// data source and hands the file to the delivery adapter.
+
+import { toISODate } from '@/lib/dates';
+import { getDataSource, type DataSource } from './dataSource';
+import { slugify } from './exportPipeline';
+import { getDeliveryAdapter, type ReportDeliveryAdapter } from './reportDelivery';
+import { fetchDashboardReport } from './report';
+import { renderReportFile } from './reportFiles';
+import {
+  getSubscriptionStore,
+  nextRunAfter,
+  SubscriptionError,
+  type ReportSubscription,
+  type SubscriptionStore
+} from './reportSubscriptions';
+import { restoreViewState } from './savedViews';
+
+export interface ReportRunResult {
+  subscription: ReportSubscription;
+  status: 'delivered' | 'failed';
+  error?: string;
+  scheduledFor: Date;
+}
+
+// Dependencies are looked up on every run so swapping the active store, data source or
+// adapter takes effect without restarting the scheduler
+export interface ReportSchedulerOptions {
+  store?: () => SubscriptionStore;
+  dataSource?: () => DataSource;
+  delivery?: () => ReportDeliveryAdapter;
+  now?: () => Date;
+}
+
+export class ReportScheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private check: Promise<ReportRunResult[]> | null = null;
+  private listeners = new Set<(result: ReportRunResult) => void>();
+
+  constructor(private readonly options: ReportSchedulerOptions = {}) {}
+
+  private get store() {
+    return (this.options.store ?? getSubscriptionStore)();
+  }
+
+  private now() {
+    return this.options.now?.() ?? new Date();
+  }
+
+  /** Checks immediately, so runs missed while the app was closed go out on load, then every interval */
+  start(intervalMs: number = 60000): void {
+    if (this.timer) return;
+    // A check that fails, e.g. because the store cannot be read, is tried again next interval
+    const check = () => void this.runDue().catch(() => undefined);
+    check();
+    this.timer = setInterval(check, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  onRun(listener: (result: ReportRunResult) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Runs every due subscription once; overlapping calls share the check in progress */
+  runDue(): Promise<ReportRunResult[]> {
+    if (!this.check) {
+      this.check = this.runDueSubscriptions().finally(() => {
+        this.check = null;
+      });
+    }
+    return this.check;
+  }
+
+  /** Produces and delivers one subscription now without moving its schedule */
+  async runNow(id: string): Promise<ReportRunResult> {
+    const subscription = (await this.store.list()).find(existing => existing.id === id);
+    if (!subscription) {
+      throw new SubscriptionError(`Subscription ${id} not found`);
+    }
+    return this.run(subscription, this.now());
+  }
+
+  private async runDueSubscriptions(): Promise<ReportRunResult[]> {
+    const now = this.now();
+    const due = (await this.store.list())
+      .filter(subscription => subscription.enabled && new Date(subscription.nextRunAt) <= now);
+
+    const results: ReportRunResult[] = [];
+    for (const subscription of due) {
+      let claimed: ReportSubscription;
+      try {
+        // Move the schedule on before producing the report, so a failing report is not
+        // retried every minute and several missed runs collapse into this one
+        claimed = await this.store.update(subscription.id, {
+          nextRunAt: nextRunAfter(subscription.schedule, now).toISOString()
+        });
+      } catch {
+        // Deleted since the list was read; the other due subscriptions still run
+        continue;
+      }
+      results.push(await this.run(claimed, new Date(subscription.nextRunAt)));
+    }
+    return results;
+  }
+
+  private async run(subscription: ReportSubscription, scheduledFor: Date): Promise<ReportRunResult> {
+    const now = this.now();
+    let result: ReportRunResult;
+
+    try {
+      const { filters, hiddenSeries } = restoreViewState(subscription.view, now);
+      const dataSource = (this.options.dataSource ?? getDataSource)();
+      const report = await fetchDashboardReport(dataSource, filters, { title: subscription.name, generatedAt: now, hiddenSeries });
+      const file = await renderReportFile(report, subscription.format, `${slugify(subscription.name)}-${toISODate(now)}`);
+      await (this.options.delivery ?? getDeliveryAdapter)().deliver({ subscription, file, scheduledFor });
+
+      const updated = await this.store.update(subscription.id, { lastRunAt: now.toISOString(), lastError: undefined });
+      result = { subscription: updated, status: 'delivered', scheduledFor };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // A subscription deleted while its report was produced has nowhere to record the failure
+      const updated = await this.store
+        .update(subscription.id, { lastRunAt: now.toISOString(), lastError: message })
+        .catch(() => subscription);
+      result = { subscription: updated, status: 'failed', error: message, scheduledFor };
+    }
+
+    this.listeners.forEach(listener => listener(result));
+    return result;
+  }
+}
+
+let activeScheduler: ReportScheduler | null = null;
+
+export const getReportScheduler = (): ReportScheduler => {
+  if (!activeScheduler) {
+    activeScheduler = new ReportScheduler();
+  }
+  return activeScheduler;
+};
@@ -0,0 +1,195 @@
+// Report subscriptions: a saved dashboard view sent as a PDF, CSV or workbook to a list
+// of recipients on a daily, weekly or monthly schedule. Subscriptions are kept behind a
+// SubscriptionStore; the ReportScheduler decides when each one is due.
+
+import { createRecordId, LocalStorageCollection } from './localCollection';
+import type { ReportFormat } from './reportFiles';
+import type { SavedViewState } from './savedViews';
+
+export type ReportFrequency = 'daily' | 'weekly' | 'monthly';
+
+/** Times are in the browser's local time zone */
+export interface ReportSchedule {
+  frequency: ReportFrequency;
+  /** Hour of day, 0–23 */
+  hour: number;
+  /** Day of week for weekly reports, 0 (Sunday) – 6 */
+  weekday?: number;
+  /** Day of month for monthly reports, 1–28 so every month has one */
+  dayOfMonth?: number;
+}
+
+export interface ReportSubscription {
+  id: string;
+  name: string;
+  schedule: ReportSchedule;
+  format: ReportFormat;
+  recipients: string[];
+  /** The filters, sort and chart series the report is produced with */
+  view: SavedViewState;
+  enabled: boolean;
+  createdAt: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  /** Why the last run failed; cleared by the next successful run */
+  lastError?: string;
+}
+
+export type SubscriptionInput = Pick<ReportSubscription, 'name' | 'schedule' | 'format' | 'recipients' | 'view'>;
+
+export type SubscriptionChanges = Partial<Omit<ReportSubscription, 'id' | 'createdAt'>>;
+
+export interface SubscriptionStore {
+  list(): Promise<ReportSubscription[]>;
+  create(input: SubscriptionInput): Promise<ReportSubscription>;
+  update(id: string, changes: SubscriptionChanges): Promise<ReportSubscription>;
+  remove(id: string): Promise<void>;
+}
+
+export class SubscriptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SubscriptionError';
+  }
+}
+
+export const FREQUENCY_LABELS: Record<ReportFrequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+};
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const isIntegerBetween = (value: number | undefined, min: number, max: number) =>
+  value !== undefined && Number.isInteger(value) && value >= min && value <= max;
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+export const describeSchedule = (schedule: ReportSchedule): string => {
+  switch (schedule.frequency) {
+    case 'weekly':
+      return `Every ${WEEKDAY_LABELS[schedule.weekday ?? 1]} at ${formatHour(schedule.hour)}`;
+    case 'monthly':
+      return `Monthly on day ${schedule.dayOfMonth ?? 1} at ${formatHour(schedule.hour)}`;
+    default:
+      return `Daily at ${formatHour(schedule.hour)}`;
+  }
+};
+
+/** The first scheduled time strictly after `after` */
+export const nextRunAfter = (schedule: ReportSchedule, after: Date): Date => {
+  const next = new Date(after);
+  next.setHours(schedule.hour, 0, 0, 0);
+
+  switch (schedule.frequency) {
+    case 'weekly': {
+      const weekday = schedule.weekday ?? 1;
+      next.setDate(next.getDate() + ((weekday - next.getDay() + 7) % 7));
+      if (next <= after) next.setDate(next.getDate() + 7);
+      return next;
+    }
+    case 'monthly': {
+      next.setDate(schedule.dayOfMonth ?? 1);
+      if (next <= after) next.setMonth(next.getMonth() + 1);
+      return next;
+    }
+    default:
+      if (next <= after) next.setDate(next.getDate() + 1);
+      return next;
+  }
+};
+
+/** Trims and checks user input; throws a SubscriptionError describing the first problem */
+export const validateSubscriptionInput = (input: SubscriptionInput): SubscriptionInput => {
+  const name = input.name.trim();
+  if (!name) {
+    throw new SubscriptionError('A subscription needs a name');
+  }
+
+  const { schedule } = input;
+  if (!isIntegerBetween(schedule.hour, 0, 23)) {
+    throw new SubscriptionError('Delivery hour must be between 0 and 23');
+  }
+  if (schedule.frequency === 'weekly' && !isIntegerBetween(schedule.weekday, 0, 6)) {
+    throw new SubscriptionError('Weekly reports need a day of the week');
+  }
+  if (schedule.frequency === 'monthly' && !isIntegerBetween(schedule.dayOfMonth, 1, 28)) {
+    throw new SubscriptionError('Monthly reports need a day between 1 and 28');
+  }
+
+  const recipients = [...new Set(input.recipients.map(recipient => recipient.trim().toLowerCase()).filter(Boolean))];
+  if (recipients.length === 0) {
+    throw new SubscriptionError('Add at least one recipient');
+  }
+  const invalid = recipients.find(recipient => !EMAIL.test(recipient));
+  if (invalid) {
+    throw new SubscriptionError(`"${invalid}" is not a valid email address`);
+  }
+
+  return { ...input, name, recipients };
+};
+
+export class LocalStorageSubscriptionStore implements SubscriptionStore {
+  private readonly collection: LocalStorageCollection<ReportSubscription>;
+
+  constructor(storageKey = 'ad-vista-pro:report-subscriptions', storage?: Storage) {
+    this.collection = new LocalStorageCollection(storageKey, storage);
+  }
+
+  async list(): Promise<ReportSubscription[]> {
+    return this.collection.read();
+  }
+
+  async create(input: SubscriptionInput): Promise<ReportSubscription> {
+    const valid = validateSubscriptionInput(input);
+    const now = new Date();
+    const subscription: ReportSubscription = {
+      ...valid,
+      id: createRecordId('subscription'),
+      enabled: true,
+      createdAt: now.toISOString(),
+      nextRunAt: nextRunAfter(valid.schedule, now).toISOString()
+    };
+    this.collection.write([...this.collection.read(), subscription]);
+    return subscription;
+  }
+
+  async update(id: string, changes: SubscriptionChanges): Promise<ReportSubscription> {
+    const subscriptions = this.collection.read();
+    const existing = subscriptions.find(subscription => subscription.id === id);
+    if (!existing) {
+      throw new SubscriptionError(`Subscription ${id} not found`);
+    }
+
+    const updated = { ...existing, ...changes };
+    // A new schedule, or switching a subscription back on, starts counting from now
+    const rescheduled = changes.schedule || (changes.enabled && !existing.enabled);
+    if (changes.schedule) validateSubscriptionInput(updated);
+    if (rescheduled && !changes.nextRunAt) {
+      updated.nextRunAt = nextRunAfter(updated.schedule, new Date()).toISOString();
+    }
+
+    this.collection.write(subscriptions.map(subscription => (subscription.id === id ? updated : subscription)));
+    return updated;
+  }
+
+  async remove(id: string): Promise<void> {
+    this.collection.write(this.collection.read().filter(subscription => subscription.id !== id));
+  }
+}
+
+let activeSubscriptionStore: SubscriptionStore | null = null;
+
+export const getSubscriptionStore = (): SubscriptionStore => {
+  if (!activeSubscriptionStore) {
+    activeSubscriptionStore = new LocalStorageSubscriptionStore();
+  }
+  return activeSubscriptionStore;
+};
+
+export const setSubscriptionStore = (store: SubscriptionStore): void => {
+  activeSubscriptionStore = store;
+};
@@ -0,0 +1,173 @@
+// Saved dashboard views: named snapshots of filters, table sort and column filters,
+// visible columns and chart selections. Views are kept behind a SavedViewStore so the
+// browser-local store can later be swapped for one backed by the API.
+
+import { daysBetween, shiftISODate, toISODate, type DateRange } from '@/lib/dates';
+import type { DashboardFilters } from './filters';
+import { createRecordId, LocalStorageCollection } from './localCollection';
+import {
+  DEFAULT_TABLE_STATE,
+  type CampaignTableState,
+  type DashboardViewState
+} from './viewState';
+
+/**
+ * A range ending today is saved as a trailing window so the view stays current;
+ * any other range is saved as fixed dates.
+ */
+export type SavedDateWindow =
+  | { type: 'trailing'; days: number }
+  | { type: 'fixed'; range: DateRange };
+
+export interface SavedViewState {
+  dateWindow: SavedDateWindow;
+  filters: Omit<DashboardFilters, 'dateRange'>;
+  table: Pick<CampaignTableState, 'sort' | 'columnFilters' | 'groupBy' | 'hiddenColumns'>;
+  hiddenSeries: Record<string, string[]>;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  /** At most one view is the default, applied when the dashboard opens without a shared link */
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+  state: SavedViewState;
+}
+
+export interface SavedViewStore {
+  list(): Promise<SavedView[]>;
+  create(name: string, state: SavedViewState): Promise<SavedView>;
+  rename(id: string, name: string): Promise<SavedView>;
+  remove(id: string): Promise<void>;
+  /** Makes `id` the only default view, or clears the default when `id` is null */
+  setDefault(id: string | null): Promise<void>;
+}
+
+export class SavedViewError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedViewError';
+  }
+}
+
+export const captureViewState = (viewState: DashboardViewState, today: Date = new Date()): SavedViewState => {
+  const { dateRange, ...filters } = viewState.filters;
+  const { sort, columnFilters, groupBy, hiddenColumns } = viewState.table;
+
+  return {
+    dateWindow: dateRange.to === toISODate(today)
+      ? { type: 'trailing', days: daysBetween(dateRange.from, dateRange.to) + 1 }
+      : { type: 'fixed', range: dateRange },
+    filters,
+    table: { sort, columnFilters, groupBy, hiddenColumns },
+    hiddenSeries: viewState.hiddenSeries
+  };
+};
+
+/** The view state a saved view opens with; table search and page start fresh */
+export const restoreViewState = (
+  saved: SavedViewState,
+  today: Date = new Date()
+): Omit<DashboardViewState, 'realTime'> => {
+  const to = toISODate(today);
+  const dateRange = saved.dateWindow.type === 'trailing'
+    ? { from: shiftISODate(to, -(saved.dateWindow.days - 1)), to }
+    : saved.dateWindow.range;
+
+  return {
+    filters: { ...saved.filters, dateRange },
+    table: { ...DEFAULT_TABLE_STATE, ...saved.table },
+    hiddenSeries: saved.hiddenSeries
+  };
+};
+
+const normalizeName = (name: string) => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new SavedViewError('A saved view needs a name');
+  }
+  return trimmed;
+};
+
+/**
+ * Keeps saved views as JSON under one localStorage key. Browser storage is already per
+ * user profile; pass a different key to keep separate sets of views side by side.
+ */
+export class LocalStorageViewStore implements SavedViewStore {
+  private readonly collection: LocalStorageCollection<SavedView>;
+
+  constructor(storageKey = 'ad-vista-pro:saved-views', storage?: Storage) {
+    this.collection = new LocalStorageCollection(storageKey, storage);
+  }
+
+  async list(): Promise<SavedView[]> {
+    return this.collection.read();
+  }
+
+  async create(name: string, state: SavedViewState): Promise<SavedView> {
+    const views = this.collection.read();
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      id: createRecordId('view'),
+      name: this.uniqueName(views, name),
+      isDefault: false,
+      createdAt: now,
+      updatedAt: now,
+      state
+    };
+    this.collection.write([...views, view]);
+    return view;
+  }
+
+  async rename(id: string, name: string): Promise<SavedView> {
+    const views = this.collection.read();
+    const view = this.find(views, id);
+    const renamed = { ...view, name: this.uniqueName(views, name, id), updatedAt: new Date().toISOString() };
+    this.collection.write(views.map(existing => (existing.id === id ? renamed : existing)));
+    return renamed;
+  }
+
+  async remove(id: string): Promise<void> {
+    const views = this.collection.read();
+    this.find(views, id);
+    this.collection.write(views.filter(view => view.id !== id));
+  }
+
+  async setDefault(id: string | null): Promise<void> {
+    const views = this.collection.read();
+    if (id !== null) this.find(views, id);
+    this.collection.write(views.map(view => ({ ...view, isDefault: view.id === id })));
+  }
+
+  private find(views: SavedView[], id: string): SavedView {
+    const view = views.find(existing => existing.id === id);
+    if (!view) {
+      throw new SavedViewError(`Saved view ${id} not found`);
+    }
+    return view;
+  }
+
+  private uniqueName(views: SavedView[], name: string, exceptId?: string): string {
+    const normalized = normalizeName(name);
+    const taken = views.some(view => view.id !== exceptId && view.name.toLowerCase() === normalized.toLowerCase());
+    if (taken) {
+      throw new SavedViewError(`A view named "${normalized}" already exists`);
+    }
+    return normalized;
+  }
+}
+
+let activeViewStore: SavedViewStore | null = null;
+
+export const getSavedViewStore = (): SavedViewStore => {
+  if (!activeViewStore) {
+    activeViewStore = new LocalStorageViewStore();
+  }
+  return activeViewStore;
+};
+
+export const setSavedViewStore = (store: SavedViewStore): void => {
+  activeViewStore = store;
+};
@@ -0,0 +1,206 @@
+// Dashboard view state and its URL query-string form, so any view can be shared as a link.
+// Values equal to their defaults are left out of the URL; an omitted date range means
+// "the rolling default window", so shared links without dates stay current.
+
+import { createDefaultFilters, DEFAULT_BUDGET_RANGE, type ComparisonMode, type DashboardFilters } from './filters';
+import { DERIVED_METRIC_IDS, type CampaignValueKey } from './performanceMetrics';
+import { CAMPAIGN_GROUP_BYS, type CampaignGroupBy } from './campaignGrouping';
+import {
+  columnFilterParams,
+  DEFAULT_PAGE_SIZE,
+  PAGE_SIZE_OPTIONS,
+  parseColumnFilterParams,
+  sortParams,
+  type ColumnFilters,
+  type SortRule
+} from './campaignQuery';
+
+/** Campaign table columns that can be hidden or moved; the campaign name is always shown first */
+export const CAMPAIGN_COLUMN_IDS = [
+  'client', 'budget', 'spent', 'revenue', 'impressions', 'clicks', 'conversions',
+  'ctr', 'cpc', 'cpa', 'roas', 'cpm', 'conversionRate', 'utilisation', 'pacing',
+  'status', 'startDate', 'endDate'
+] as const;
+export type CampaignColumnId = typeof CAMPAIGN_COLUMN_IDS[number];
+
+export interface CampaignTableState {
+  search: string;
+  /** Per-column filters, e.g. a budget range or a set of statuses */
+  columnFilters: ColumnFilters;
+  /** Sorted by the first rule, ties broken by the next; empty for the data's own order */
+  sort: SortRule[];
+  /** Rows are shown under a header per client, status, start month or campaign type */
+  groupBy: CampaignGroupBy;
+  page: number;
+  /** Rows per page, or "all" to scroll through every row */
+  pageSize: number | 'all';
+  hiddenColumns: CampaignColumnId[];
+}
+
+export interface DashboardViewState {
+  filters: DashboardFilters;
+  table: CampaignTableState;
+  /** Series hidden from each chart, keyed by chart id */
+  hiddenSeries: Record<string, string[]>;
+  realTime: boolean;
+}
+
+export const DEFAULT_TABLE_STATE: CampaignTableState = {
+  search: '',
+  columnFilters: {},
+  sort: [{ key: 'budget', direction: 'desc' }],
+  groupBy: 'none',
+  page: 1,
+  pageSize: DEFAULT_PAGE_SIZE,
+  hiddenColumns: ['revenue', 'impressions', 'clicks', 'cpc', 'cpm', 'conversionRate', 'utilisation', 'pacing', 'startDate', 'endDate']
+};
+
+const COMPARISON_MODES: ComparisonMode[] = ['previous', 'year', 'custom'];
+const SORT_KEYS: CampaignValueKey[] = [
+  'id', 'name', 'client', 'budget', 'spent', 'revenue', 'impressions', 'clicks', 'conversions',
+  'ctr', 'cpc', 'status', 'startDate', 'endDate', ...DERIVED_METRIC_IDS
+];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const createDefaultViewState = (): DashboardViewState => ({
+  filters: createDefaultFilters(),
+  table: { ...DEFAULT_TABLE_STATE },
+  hiddenSeries: {},
+  realTime: false
+});
+
+const readDate = (params: URLSearchParams, key: string): string | null => {
+  const value = params.get(key);
+  return value && ISO_DATE.test(value) ? value : null;
+};
+
+const sameSort = (a: SortRule[], b: SortRule[]) =>
+  a.length === b.length && a.every((rule, index) => rule.key === b[index].key && rule.direction === b[index].direction);
+
+const isSortKey = (key: string): key is CampaignValueKey => (SORT_KEYS as string[]).includes(key);
+
+// "sort=budget:desc&sort=name:asc", or "sort=none" for unsorted
+const readSort = (params: URLSearchParams): SortRule[] => {
+  const entries = params.getAll('sort');
+  if (entries.length === 0) return DEFAULT_TABLE_STATE.sort.map(rule => ({ ...rule }));
+  if (entries[0] === 'none') return [];
+
+  const rules: SortRule[] = [];
+  entries.forEach(entry => {
+    const [key, direction] = entry.split(':');
+    if (!isSortKey(key) || rules.some(rule => rule.key === key)) return;
+    rules.push({ key, direction: direction === 'asc' ? 'asc' : 'desc' });
+  });
+  return rules;
+};
+
+const sameColumns = (a: readonly CampaignColumnId[], b: readonly CampaignColumnId[]) =>
+  a.length === b.length && a.every(column => b.includes(column));
+
+const readNumber = (params: URLSearchParams, key: string): number | null => {
+  const raw = params.get(key);
+  if (raw === null || raw.trim() === '') return null;
+  const value = Number(raw);
+  return Number.isFinite(value) ? value : null;
+};
+
+/** Reads a view state from a query string; anything missing or malformed falls back to its default */
+export const parseViewState = (params: URLSearchParams): DashboardViewState => {
+  const defaults = createDefaultViewState();
+
+  const mode = params.get('compare') as ComparisonMode | null;
+  const comparisonMode = mode && COMPARISON_MODES.includes(mode) ? mode : 'previous';
+  const compareFrom = readDate(params, 'cfrom');
+  const compareTo = readDate(params, 'cto');
+
+  const page = readNumber(params, 'page');
+  const groupBy = params.get('group') as CampaignGroupBy | null;
+  const pageSize = params.get('size') === 'all' ? 'all' : readNumber(params, 'size');
+
+  // No hideColumn parameter keeps the default columns; an empty one means every column is shown
+  const hideColumnParams = params.getAll('hideColumn');
+  const hiddenColumns = hideColumnParams.length === 0
+    ? [...DEFAULT_TABLE_STATE.hiddenColumns]
+    : hideColumnParams.filter((column): column is CampaignColumnId =>
+      (CAMPAIGN_COLUMN_IDS as readonly string[]).includes(column));
+  // Each entry is "<chart id>:<series key>"
+  const hiddenSeries: Record<string, string[]> = {};
+  params.getAll('hideSeries').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator <= 0) return;
+    const chart = entry.slice(0, separator);
+    hiddenSeries[chart] = [...(hiddenSeries[chart] ?? []), entry.slice(separator + 1)];
+  });
+
+  return {
+    filters: {
+      dateRange: {
+        from: readDate(params, 'from') ?? defaults.filters.dateRange.from,
+        to: readDate(params, 'to') ?? defaults.filters.dateRange.to
+      },
+      comparison: comparisonMode === 'custom' && compareFrom && compareTo
+        ? { mode: 'custom', range: { from: compareFrom, to: compareTo } }
+        : { mode: comparisonMode === 'custom' ? 'previous' : comparisonMode },
+      clients: params.getAll('client'),
+      status: params.getAll('status'),
+      budgetRange: {
+        min: readNumber(params, 'minBudget') ?? DEFAULT_BUDGET_RANGE.min,
+        max: readNumber(params, 'maxBudget') ?? DEFAULT_BUDGET_RANGE.max
+      }
+    },
+    table: {
+      search: params.get('q') ?? DEFAULT_TABLE_STATE.search,
+      columnFilters: parseColumnFilterParams(params),
+      sort: readSort(params),
+      groupBy: groupBy && CAMPAIGN_GROUP_BYS.includes(groupBy) ? groupBy : DEFAULT_TABLE_STATE.groupBy,
+      page: page !== null && page >= 1 ? Math.floor(page) : DEFAULT_TABLE_STATE.page,
+      pageSize: pageSize === 'all' || PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : DEFAULT_TABLE_STATE.pageSize,
+      hiddenColumns
+    },
+    hiddenSeries,
+    realTime: params.get('live') === '1'
+  };
+};
+
+export const serializeViewState = (state: DashboardViewState): URLSearchParams => {
+  const defaults = createDefaultViewState();
+  const params = new URLSearchParams();
+  const { filters, table } = state;
+
+  if (filters.dateRange.from !== defaults.filters.dateRange.from || filters.dateRange.to !== defaults.filters.dateRange.to) {
+    params.set('from', filters.dateRange.from);
+    params.set('to', filters.dateRange.to);
+  }
+  if (filters.comparison.mode !== 'previous') {
+    params.set('compare', filters.comparison.mode);
+    if (filters.comparison.mode === 'custom' && filters.comparison.range) {
+      params.set('cfrom', filters.comparison.range.from);
+      params.set('cto', filters.comparison.range.to);
+    }
+  }
+  filters.clients.forEach(client => params.append('client', client));
+  filters.status.forEach(status => params.append('status', status));
+  if (filters.budgetRange.min > DEFAULT_BUDGET_RANGE.min) params.set('minBudget', String(filters.budgetRange.min));
+  if (filters.budgetRange.max < DEFAULT_BUDGET_RANGE.max) params.set('maxBudget', String(filters.budgetRange.max));
+
+  if (table.search) params.set('q', table.search);
+  columnFilterParams(table.columnFilters).forEach(([name, value]) => params.append(name, value));
+  if (!sameSort(table.sort, DEFAULT_TABLE_STATE.sort)) {
+    if (table.sort.length === 0) params.set('sort', 'none');
+    sortParams(table.sort).forEach(([name, value]) => params.append(name, value));
+  }
+  if (table.groupBy !== DEFAULT_TABLE_STATE.groupBy) params.set('group', table.groupBy);
+  if (table.page !== DEFAULT_TABLE_STATE.page) params.set('page', String(table.page));
+  if (table.pageSize !== DEFAULT_TABLE_STATE.pageSize) params.set('size', String(table.pageSize));
+  if (!sameColumns(table.hiddenColumns, DEFAULT_TABLE_STATE.hiddenColumns)) {
+    if (table.hiddenColumns.length === 0) params.append('hideColumn', '');
+    table.hiddenColumns.forEach(column => params.append('hideColumn', column));
+  }
+  Object.entries(state.hiddenSeries).forEach(([chart, keys]) =>
+    keys.forEach(key => params.append('hideSeries', `${chart}:${key}`))
+  );
+
+  if (state.realTime) params.set('live', '1');
+
+  return params;
+};
@@ -0,0 +1,216 @@
+// Excel workbook for the dashboard: a Summary sheet with the headline metrics, a
+// Campaigns sheet with typed, formatted columns and one sheet per chart series.
+// Cells hold raw numbers and dates with Excel number formats, so clients can keep
+// calculating with them.
+
+import { Workbook, type Worksheet } from 'exceljs';
+import { formatDateRange, parseISODate } from '@/lib/dates';
+import type { ExportTable } from './exportPipeline';
+import type { CampaignData, ChartDataPoint } from './mockData';
+import { campaignMetric, DERIVED_METRICS, type DerivedMetricId } from './performanceMetrics';
+import {
+  CAMPAIGN_REPORT_METRICS,
+  chartSeriesKeys,
+  derivedMetricFormat,
+  seriesFormat,
+  seriesLabel,
+  type DashboardReport,
+  type ReportChart,
+  type ValueFormat
+} from './report';
+
+const NUMBER_FORMATS = {
+  currency: '"$"#,##0',
+  currencyCents: '"$"#,##0.00',
+  number: '#,##0',
+  // Dashboard percentages are stored as 0–100, so cells get value / 100 and a % format
+  percentage: '0.00%',
+  ratio: '0.00"x"',
+  change: '+0.0"%";-0.0"%";0.0"%"',
+  date: 'yyyy-mm-dd'
+};
+
+const HEADER_FILL = 'FFF3F4F6';
+
+interface CampaignColumn {
+  header: string;
+  width: number;
+  format?: string;
+  /** null leaves the cell empty, e.g. CPA without conversions; pacing is measured as of `asOf` */
+  value: (campaign: CampaignData, asOf: string) => string | number | Date | null;
+}
+
+const cellFormat = (format: ValueFormat | undefined) => {
+  switch (format) {
+    case 'currency':
+      return NUMBER_FORMATS.currency;
+    case 'percentage':
+      return NUMBER_FORMATS.percentage;
+    case 'ratio':
+      return NUMBER_FORMATS.ratio;
+    default:
+      return NUMBER_FORMATS.number;
+  }
+};
+
+const cellValue = (value: number, format: ValueFormat | undefined) => (format === 'percentage' ? value / 100 : value);
+
+// Currency metrics such as CPA are per unit, so they keep their cents
+const metricColumn = (metric: DerivedMetricId, width: number): CampaignColumn => {
+  const format = derivedMetricFormat(metric);
+  return {
+    header: DERIVED_METRICS[metric].label,
+    width,
+    format: format === 'currency' ? NUMBER_FORMATS.currencyCents : cellFormat(format),
+    value: (c, asOf) => {
+      const value = campaignMetric(c, metric, asOf);
+      return value === null ? null : cellValue(value, format);
+    }
+  };
+};
+
+const CAMPAIGN_COLUMNS: CampaignColumn[] = [
+  { header: 'ID', width: 12, value: c => c.id },
+  { header: 'Campaign', width: 34, value: c => c.name },
+  { header: 'Client', width: 18, value: c => c.client },
+  { header: 'Status', width: 12, value: c => c.status },
+  { header: 'Start Date', width: 12, format: NUMBER_FORMATS.date, value: c => parseISODate(c.startDate) },
+  { header: 'End Date', width: 12, format: NUMBER_FORMATS.date, value: c => parseISODate(c.endDate) },
+  { header: 'Budget', width: 14, format: NUMBER_FORMATS.currency, value: c => c.budget },
+  { header: 'Spent', width: 14, format: NUMBER_FORMATS.currency, value: c => c.spent },
+  { header: 'Revenue', width: 14, format: NUMBER_FORMATS.currency, value: c => c.revenue },
+  { header: 'Impressions', width: 14, format: NUMBER_FORMATS.number, value: c => c.impressions },
+  { header: 'Clicks', width: 12, format: NUMBER_FORMATS.number, value: c => c.clicks },
+  { header: 'Conversions', width: 13, format: NUMBER_FORMATS.number, value: c => c.conversions },
+  { header: 'CTR', width: 10, format: NUMBER_FORMATS.percentage, value: c => c.ctr / 100 },
+  { header: 'CPC', width: 10, format: NUMBER_FORMATS.currencyCents, value: c => c.cpc },
+  ...CAMPAIGN_REPORT_METRICS.map(metric => metricColumn(metric, 12))
+];
+
+/** Excel sheet names are at most 31 characters, unique, and cannot contain []:*?/\ */
+const sheetName = (title: string, taken: Set<string>): string => {
+  const base = title.replace(/[[\]:*?/\\]/g, '-').slice(0, 31).trim() || 'Sheet';
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = `${base.slice(0, 31 - suffix.length)}${suffix}`;
+  }
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+const styleHeaderRow = (sheet: Worksheet, rowNumber: number) => {
+  const row = sheet.getRow(rowNumber);
+  row.font = { bold: true };
+  row.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  });
+  // Keep the header visible while scrolling
+  sheet.views = [{ state: 'frozen', ySplit: rowNumber }];
+};
+
+const addSummarySheet = (workbook: Workbook, report: DashboardReport, name: string) => {
+  const sheet = workbook.addWorksheet(name);
+  sheet.columns = [{ width: 22 }, { width: 18 }, { width: 14 }, { width: 10 }];
+
+  sheet.addRow([report.title]).font = { bold: true, size: 14 };
+  if (report.subtitle) sheet.addRow([report.subtitle]);
+  sheet.addRow(['Reporting period', formatDateRange(report.dateRange)]);
+  sheet.addRow(['Compared', report.comparisonLabel]);
+  sheet.addRow(['Generated', (report.generatedAt ?? new Date()).toLocaleString('en-US', { dateStyle: 'long', timeStyle: 'short' })]);
+  sheet.addRow([]);
+
+  const header = sheet.addRow(['Metric', 'Value', 'Change', 'Trend']);
+  report.metrics.forEach(metric => {
+    const row = sheet.addRow([
+      metric.label,
+      cellValue(metric.data.value, metric.format),
+      metric.data.change,
+      metric.data.trend
+    ]);
+    row.getCell(2).numFmt = metric.format === 'currency' ? NUMBER_FORMATS.currencyCents : cellFormat(metric.format);
+    row.getCell(3).numFmt = NUMBER_FORMATS.change;
+  });
+  header.font = { bold: true };
+  header.eachCell(cell => {
+    cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  });
+};
+
+const addCampaignSheet = (workbook: Workbook, campaigns: CampaignData[], asOf: string, name: string) => {
+  const sheet = workbook.addWorksheet(name);
+  sheet.columns = CAMPAIGN_COLUMNS.map(column => ({
+    header: column.header,
+    width: column.width,
+    style: column.format ? { numFmt: column.format } : {}
+  }));
+  campaigns.forEach(campaign => sheet.addRow(CAMPAIGN_COLUMNS.map(column => column.value(campaign, asOf))));
+
+  styleHeaderRow(sheet, 1);
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: CAMPAIGN_COLUMNS.length } };
+};
+
+const addChartSheet = (workbook: Workbook, chart: ReportChart, name: string) => {
+  const sheet = workbook.addWorksheet(name);
+  const keys = chartSeriesKeys(chart);
+  const hasDates = chart.data.some(point => point.date);
+
+  sheet.columns = [
+    { header: hasDates ? 'Date' : 'Name', width: hasDates ? 12 : 20, style: hasDates ? { numFmt: NUMBER_FORMATS.date } : {} },
+    ...keys.map(key => ({
+      header: seriesLabel(chart, key),
+      width: 16,
+      style: { numFmt: cellFormat(seriesFormat(chart, key)) }
+    }))
+  ];
+  chart.data.forEach(point => {
+    sheet.addRow([
+      hasDates && point.date ? parseISODate(point.date) : point.name,
+      ...keys.map(key => {
+        const value = point[key as keyof ChartDataPoint];
+        return typeof value === 'number' ? cellValue(value, seriesFormat(chart, key)) : null;
+      })
+    ]);
+  });
+
+  styleHeaderRow(sheet, 1);
+};
+
+const createWorkbook = (created: Date = new Date()): Workbook => {
+  const workbook = new Workbook();
+  workbook.creator = 'Ad Vista Pro';
+  workbook.created = created;
+  return workbook;
+};
+
+export const buildWorkbook = (report: DashboardReport): Workbook => {
+  const workbook = createWorkbook(report.generatedAt);
+
+  const taken = new Set<string>();
+  addSummarySheet(workbook, report, sheetName('Summary', taken));
+  addCampaignSheet(workbook, report.campaigns, report.dateRange.to, sheetName('Campaigns', taken));
+  report.charts.forEach(chart => addChartSheet(workbook, chart, sheetName(chart.title, taken)));
+
+  return workbook;
+};
+
+/** A single sheet holding one exported table, e.g. a chart's data or a metric card */
+export const buildTableWorkbook = (table: ExportTable, title: string): Workbook => {
+  const workbook = createWorkbook();
+  const sheet = workbook.addWorksheet(sheetName(title, new Set()));
+
+  sheet.columns = table.columns.map(column => ({
+    header: column.label,
+    width: Math.max(12, column.label.length + 4),
+    style: column.format ? { numFmt: cellFormat(column.format) } : {}
+  }));
+  table.rows.forEach(row => {
+    sheet.addRow(table.columns.map(column => {
+      const value = row[column.key];
+      return typeof value === 'number' ? cellValue(value, column.format) : value ?? null;
+    }));
+  });
+
+  styleHeaderRow(sheet, 1);
+  return workbook;
+};
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_DATA_SOURCE?: 'mock' | 'rest';
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_MOCK_SEED?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}